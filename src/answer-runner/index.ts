@@ -5,3 +5,7 @@
 export * from './runner.js';
 export * from './role-catalog.js';
 export * from './prompt-builder.js';
+export * from './schema-validator.js';
+export * from './tool-registry.js';
+export * from './repo-tools.js';
+export * from './mcp-client-pool.js';
@@ -0,0 +1,199 @@
+/**
+ * MCP Client Pool
+ * Downstream MCP servers, launched over stdio, whose tools the Answer Runner offers as
+ * <server>.<tool>. A server starts on the first Ask that could use one of its tools, is shared
+ * by later Asks and stops after idleTimeoutSec without a tool call.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import type { Tool as McpTool } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+import type { McpServerConfig } from '../config/schema.js';
+import type { AskRecord } from '../models/index.js';
+import { Ok, Err } from '../models/index.js';
+import type { RoleDefinition } from './role-catalog.js';
+import { requestsToolPrefix, type ToolDefinition } from './tool-registry.js';
+
+const CONNECT_TIMEOUT_MS = 30_000;
+
+interface McpConnection {
+  server: McpServerConfig;
+  client: Client;
+  /** Tool definitions once the server is up; null when it failed to start */
+  ready: Promise<ToolDefinition[] | null>;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Text of a tools/call result; non-text content is summarized rather than inlined
+ */
+export function mcpResultText(result: Record<string, unknown>): string {
+  const content = result['content'];
+  if (!Array.isArray(content)) {
+    return JSON.stringify(result['structuredContent'] ?? result['toolResult'] ?? result);
+  }
+
+  const parts = content.map((item: { type?: unknown; text?: unknown }) =>
+    item.type === 'text' && typeof item.text === 'string' ? item.text : `[${String(item.type)} content omitted]`
+  );
+  if (parts.length === 0 && result['structuredContent'] !== undefined) {
+    return JSON.stringify(result['structuredContent']);
+  }
+
+  return parts.join('\n');
+}
+
+export class McpClientPool {
+  private readonly connections = new Map<string, McpConnection>();
+
+  constructor(
+    private readonly servers: readonly McpServerConfig[],
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Tools of every server the Ask could use, launching servers as needed. A server that fails
+   * to start contributes no tools and is retried on the next Ask.
+   */
+  async toolsFor(ask: AskRecord, role: RoleDefinition | null): Promise<ToolDefinition[]> {
+    const requested = this.servers.filter((server) => requestsToolPrefix(ask, role, server.name));
+    const tools = await Promise.all(requested.map((server) => this.connect(server).ready));
+    return tools.flatMap((serverTools) => serverTools ?? []);
+  }
+
+  async close(): Promise<void> {
+    const connections = [...this.connections.values()];
+    await Promise.all(connections.map((connection) => this.stop(connection)));
+  }
+
+  private connect(server: McpServerConfig): McpConnection {
+    const existing = this.connections.get(server.name);
+    if (existing) {
+      return existing;
+    }
+
+    const connection: McpConnection = {
+      server,
+      client: new Client({ name: 'mcp-task-relay-answer-runner', version: '0.1.0' }),
+      ready: Promise.resolve(null),
+      idleTimer: null,
+    };
+    this.connections.set(server.name, connection);
+    connection.ready = this.start(connection);
+    return connection;
+  }
+
+  private async start(connection: McpConnection): Promise<ToolDefinition[] | null> {
+    const { server, client } = connection;
+    const transport = new StdioClientTransport({
+      command: server.command,
+      args: server.args,
+      env: { ...getDefaultEnvironment(), ...server.env },
+      stderr: 'pipe',
+      ...(server.cwd !== undefined ? { cwd: server.cwd } : {}),
+    });
+    transport.stderr?.on('data', (chunk: Buffer) => {
+      this.logger.debug({ server: server.name, stderr: chunk.toString().trim() }, 'MCP server stderr');
+    });
+
+    client.onclose = () => {
+      if (this.connections.get(server.name) === connection) {
+        this.logger.warn({ server: server.name }, 'MCP server exited; it will be relaunched on demand');
+      }
+      this.forget(connection);
+    };
+
+    try {
+      await client.connect(transport, { timeout: CONNECT_TIMEOUT_MS });
+
+      const listed: McpTool[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await client.listTools(cursor !== undefined ? { cursor } : {}, { timeout: CONNECT_TIMEOUT_MS });
+        listed.push(...page.tools);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      this.touch(connection);
+      this.logger.info({ server: server.name, tools: listed.length }, 'MCP server started');
+      return listed.map((tool) => this.toToolDefinition(connection, tool));
+    } catch (error) {
+      this.logger.warn(
+        { server: server.name, error: error instanceof Error ? error.message : String(error) },
+        'Failed to start MCP server'
+      );
+      await this.stop(connection);
+      return null;
+    }
+  }
+
+  private toToolDefinition(connection: McpConnection, tool: McpTool): ToolDefinition {
+    const { server } = connection;
+
+    return {
+      name: `${server.name}.${tool.name}`,
+      description: tool.description ?? tool.title ?? tool.name,
+      inputSchema: { ...tool.inputSchema, type: 'object' } as Anthropic.Tool.InputSchema,
+      readOnly: server.readOnlyTools.includes(tool.name) || tool.annotations?.readOnlyHint === true,
+      requiresSnapshot: false,
+      execute: async (input, context) => {
+        if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+          return Err('Tool input must be an object');
+        }
+
+        this.touch(connection);
+        try {
+          const result = await connection.client.callTool(
+            { name: tool.name, arguments: input as Record<string, unknown> },
+            undefined,
+            { signal: context.signal }
+          );
+          const text = mcpResultText(result);
+          return result.isError === true ? Err(text || `${tool.name} failed`) : Ok(text);
+        } finally {
+          this.touch(connection);
+        }
+      },
+    };
+  }
+
+  /**
+   * Restart the idle countdown after a tool call
+   */
+  private touch(connection: McpConnection): void {
+    if (this.connections.get(connection.server.name) !== connection) {
+      return;
+    }
+    if (connection.idleTimer) {
+      clearTimeout(connection.idleTimer);
+    }
+    connection.idleTimer = setTimeout(() => {
+      this.logger.info({ server: connection.server.name }, 'Stopping idle MCP server');
+      void this.stop(connection);
+    }, connection.server.idleTimeoutSec * 1000);
+    connection.idleTimer.unref();
+  }
+
+  private async stop(connection: McpConnection): Promise<void> {
+    this.forget(connection);
+    await connection.client.close().catch((error: unknown) => {
+      this.logger.warn(
+        { server: connection.server.name, error: error instanceof Error ? error.message : String(error) },
+        'Failed to stop MCP server'
+      );
+    });
+  }
+
+  private forget(connection: McpConnection): void {
+    if (connection.idleTimer) {
+      clearTimeout(connection.idleTimer);
+      connection.idleTimer = null;
+    }
+    // A replacement may already be starting under the same name
+    if (this.connections.get(connection.server.name) === connection) {
+      this.connections.delete(connection.server.name);
+    }
+  }
+}
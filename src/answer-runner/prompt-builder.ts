@@ -1,9 +1,10 @@
 /**
  * Prompt Builder
- * Implements Phase 2 prompt layering: Base → Role → Context → Task
+ * Implements Phase 2 prompt layering: Base → Role → Context → Task (→ Feedback on retries)
  */
 
 import type { RoleDefinition } from './role-catalog.js';
+import type { SchemaViolation } from './schema-validator.js';
 import type { AskRecord } from '../models/index.js';
 
 export interface PromptLayers {
@@ -11,6 +12,7 @@ export interface PromptLayers {
   role?: string;
   context?: string;
   task: string;
+  feedback?: string;
 }
 
 export class PromptBuilder {
@@ -39,6 +41,12 @@ export class PromptBuilder {
     parts.push('\n---\n');
     parts.push(layers.task);
 
+    // Layer 5: Feedback on the previous attempt (retries only)
+    if (layers.feedback) {
+      parts.push('\n---\n');
+      parts.push(layers.feedback);
+    }
+
     return parts.join('');
   }
 
@@ -144,6 +152,11 @@ GUARDRAILS
       parts.push(`Max tokens: ${ask.constraints.max_tokens}`);
     }
 
+    if (ask.constraints?.max_tool_calls !== undefined) {
+      parts.push('');
+      parts.push(`Max tool calls: ${ask.constraints.max_tool_calls}`);
+    }
+
     if (ask.meta) {
       parts.push('');
       parts.push('Metadata:');
@@ -188,4 +201,19 @@ GUARDRAILS
 
     return parts.join('\n');
   }
+
+  /**
+   * Build feedback layer listing why the previous answer_json was rejected
+   */
+  buildFeedbackLayer(violations: readonly SchemaViolation[]): string {
+    const parts: string[] = [];
+
+    parts.push('PREVIOUS ATTEMPT REJECTED');
+    parts.push('Your answer_json did not match the output schema:');
+    parts.push(violations.map((v) => `  - ${v.path || '/'}: ${v.message}`).join('\n'));
+    parts.push('');
+    parts.push('Return a corrected JSON object that fixes every error above.');
+
+    return parts.join('\n');
+  }
 }
@@ -0,0 +1,291 @@
+/**
+ * Repository tools
+ * repo.search, repo.read and tests.lookup read git objects at the job's baseline commit, so
+ * they never touch a working tree and cannot see files outside the repository.
+ */
+
+import { execa } from 'execa';
+import { posix } from 'path';
+import { z } from 'zod';
+import { Result, Ok, Err } from '../models/index.js';
+import type { RepoSnapshot, ToolContext, ToolDefinition } from './tool-registry.js';
+
+const MAX_OUTPUT_CHARS = 16_000;
+const MAX_LINE_CHARS = 300;
+const MAX_READ_LINES = 400;
+const MAX_TEST_FILES = 50;
+
+const TEST_FILE = /(^|\/)(tests?|__tests__|spec)\/|[._-](test|spec)\.[^/]+$|(^|\/)test_[^/]+\.py$/i;
+
+const SearchInputSchema = z.object({
+  query: z.string().min(1),
+  path: z.string().optional(),
+  regex: z.boolean().optional(),
+  max_results: z.number().int().min(1).max(200).optional(),
+});
+
+const ReadInputSchema = z.object({
+  path: z.string(),
+  from_line: z.number().int().min(1).optional(),
+  to_line: z.number().int().min(1).optional(),
+});
+
+const LookupInputSchema = z.object({
+  path: z.string().optional(),
+  query: z.string().optional(),
+});
+
+/**
+ * Repository-relative path with no way out of the repository ('' is the root)
+ */
+export function normalizeRepoPath(path: string): Result<string, string> {
+  const trimmed = path.trim();
+  if (trimmed.startsWith('/') || trimmed.startsWith(':')) {
+    return Err(`Path must be relative to the repository root: ${path}`);
+  }
+
+  const normalized = posix.normalize(trimmed || '.').replace(/\/+$/, '');
+  if (normalized === '..' || normalized.startsWith('../')) {
+    return Err(`Path escapes the repository: ${path}`);
+  }
+
+  return Ok(normalized === '.' ? '' : normalized);
+}
+
+export function isTestFile(path: string): boolean {
+  return TEST_FILE.test(path);
+}
+
+/**
+ * Test files related to a source path (by file stem) and/or containing a query string
+ */
+export function findTestFiles(files: readonly string[], filter: { path?: string; query?: string }): string[] {
+  const stem = filter.path
+    ? (posix.basename(filter.path).split('.')[0] ?? '').toLowerCase()
+    : '';
+  const query = filter.query?.toLowerCase();
+
+  return files.filter((file) => {
+    if (!isTestFile(file)) {
+      return false;
+    }
+    const lower = file.toLowerCase();
+    if (stem && !posix.basename(lower).includes(stem)) {
+      return false;
+    }
+    return !query || lower.includes(query);
+  });
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n[truncated]` : text;
+}
+
+function parseInput<T>(schema: z.ZodType<T>, input: unknown): Result<T, string> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    return Err(`Invalid tool input: ${parsed.error.message}`);
+  }
+  return Ok(parsed.data);
+}
+
+function requireSnapshot(context: ToolContext): Result<RepoSnapshot, string> {
+  return context.snapshot ? Ok(context.snapshot) : Err('No repository snapshot is available for this job');
+}
+
+async function git(
+  snapshot: RepoSnapshot,
+  args: string[],
+  signal: AbortSignal
+): Promise<{ exitCode: number | undefined; stdout: string; stderr: string }> {
+  const result = await execa('git', [...snapshot.gitArgs, ...args], {
+    cancelSignal: signal,
+    reject: false,
+    stripFinalNewline: false,
+    maxBuffer: 8 * 1024 * 1024,
+  });
+  return { exitCode: result.exitCode, stdout: result.stdout, stderr: result.stderr };
+}
+
+async function search(input: unknown, context: ToolContext): Promise<Result<string, string>> {
+  const snapshot = requireSnapshot(context);
+  if (!snapshot.ok) {
+    return snapshot;
+  }
+  const params = parseInput(SearchInputSchema, input);
+  if (!params.ok) {
+    return params;
+  }
+  const path = normalizeRepoPath(params.value.path ?? '');
+  if (!path.ok) {
+    return path;
+  }
+
+  const { commit } = snapshot.value;
+  const args = ['grep', '-n', '-I', '--no-color', params.value.regex ? '-E' : '-F', '-e', params.value.query, commit];
+  if (path.value) {
+    args.push('--', path.value);
+  }
+
+  const result = await git(snapshot.value, args, context.signal);
+  if (result.exitCode === 1) {
+    return Ok('No matches');
+  }
+  if (result.exitCode !== 0) {
+    return Err(`Search failed: ${result.stderr.trim()}`);
+  }
+
+  const limit = params.value.max_results ?? 50;
+  const lines = result.stdout.split('\n').filter(Boolean);
+  const shown = lines
+    .slice(0, limit)
+    .map((line) => line.slice(commit.length + 1, commit.length + 1 + MAX_LINE_CHARS));
+  if (lines.length > limit) {
+    shown.push(`[${lines.length - limit} more matches]`);
+  }
+
+  return Ok(truncate(shown.join('\n')));
+}
+
+async function read(input: unknown, context: ToolContext): Promise<Result<string, string>> {
+  const snapshot = requireSnapshot(context);
+  if (!snapshot.ok) {
+    return snapshot;
+  }
+  const params = parseInput(ReadInputSchema, input);
+  if (!params.ok) {
+    return params;
+  }
+  const path = normalizeRepoPath(params.value.path);
+  if (!path.ok) {
+    return path;
+  }
+
+  const object = `${snapshot.value.commit}:${path.value}`;
+  const type = await git(snapshot.value, ['cat-file', '-t', object], context.signal);
+  if (type.exitCode !== 0) {
+    return Err(`Not found at ${snapshot.value.commit}: ${path.value || '/'}`);
+  }
+
+  if (type.stdout.trim() === 'tree') {
+    const listing = await git(snapshot.value, ['ls-tree', object], context.signal);
+    const entries = listing.stdout
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [meta = '', name = ''] = line.split('\t');
+        return meta.split(' ')[1] === 'tree' ? `${name}/` : name;
+      });
+    return Ok(truncate(entries.join('\n')));
+  }
+
+  const blob = await git(snapshot.value, ['cat-file', 'blob', object], context.signal);
+  if (blob.exitCode !== 0) {
+    return Err(`Failed to read ${path.value}: ${blob.stderr.trim()}`);
+  }
+  if (blob.stdout.includes('\u0000')) {
+    return Err(`${path.value} is a binary file`);
+  }
+
+  const lines = blob.stdout.replace(/\n$/, '').split('\n');
+  const from = params.value.from_line ?? 1;
+  const to = Math.min(params.value.to_line ?? lines.length, from + MAX_READ_LINES - 1, lines.length);
+  if (from > lines.length) {
+    return Err(`${path.value} has only ${lines.length} lines`);
+  }
+
+  const numbered = lines.slice(from - 1, to).map((line, index) => `${from + index}: ${line}`);
+  return Ok(truncate(`${path.value} (lines ${from}-${to} of ${lines.length})\n${numbered.join('\n')}`));
+}
+
+async function lookupTests(input: unknown, context: ToolContext): Promise<Result<string, string>> {
+  const snapshot = requireSnapshot(context);
+  if (!snapshot.ok) {
+    return snapshot;
+  }
+  const params = parseInput(LookupInputSchema, input);
+  if (!params.ok) {
+    return params;
+  }
+
+  const listing = await git(snapshot.value, ['ls-tree', '-r', '-z', '--name-only', snapshot.value.commit], context.signal);
+  if (listing.exitCode !== 0) {
+    return Err(`Failed to list files: ${listing.stderr.trim()}`);
+  }
+
+  const filter = {
+    ...(params.value.path !== undefined ? { path: params.value.path } : {}),
+    ...(params.value.query !== undefined ? { query: params.value.query } : {}),
+  };
+  const matches = findTestFiles(listing.stdout.split('\u0000').filter(Boolean), filter);
+  if (matches.length === 0) {
+    return Ok('No test files found');
+  }
+
+  const shown = matches.slice(0, MAX_TEST_FILES);
+  if (matches.length > MAX_TEST_FILES) {
+    shown.push(`[${matches.length - MAX_TEST_FILES} more test files]`);
+  }
+  return Ok(shown.join('\n'));
+}
+
+/**
+ * Built-in repository tools, all read-only
+ */
+export function createRepoTools(): ToolDefinition[] {
+  return [
+    {
+      name: 'repo.search',
+      description:
+        'Search file contents at the job baseline commit (git grep). Returns "path:line:text" matches. ' +
+        'The query is a literal string unless regex is true.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Text or extended regular expression to find' },
+          path: { type: 'string', description: 'Limit the search to this file or directory' },
+          regex: { type: 'boolean', description: 'Treat query as an extended regular expression' },
+          max_results: { type: 'integer', minimum: 1, maximum: 200, description: 'Default 50' },
+        },
+        required: ['query'],
+      },
+      readOnly: true,
+      requiresSnapshot: true,
+      execute: search,
+    },
+    {
+      name: 'repo.read',
+      description:
+        `Read a file at the job baseline commit with line numbers (at most ${MAX_READ_LINES} lines per call), ` +
+        'or list a directory.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Path relative to the repository root' },
+          from_line: { type: 'integer', minimum: 1 },
+          to_line: { type: 'integer', minimum: 1 },
+        },
+        required: ['path'],
+      },
+      readOnly: true,
+      requiresSnapshot: true,
+      execute: read,
+    },
+    {
+      name: 'tests.lookup',
+      description:
+        'Find test files at the job baseline commit, optionally those covering a source path ' +
+        '(matched by file name) or whose path contains a query string.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Source file whose tests to find' },
+          query: { type: 'string', description: 'Substring of the test file path' },
+        },
+      },
+      readOnly: true,
+      requiresSnapshot: true,
+      execute: lookupTests,
+    },
+  ];
+}
@@ -1,9 +1,10 @@
 /**
  * Role Catalog Loader
  * Reads and parses role YAML files from the prompts directory
+ * Files are re-read when they change, so a version bump takes effect without a restart.
  */
 
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, readdirSync, existsSync, statSync } from 'fs';
 import { join } from 'path';
 import * as yaml from 'yaml';
 import type { Logger } from 'pino';
@@ -21,14 +22,21 @@ export interface RoleDefinition {
     max_tool_calls?: number;
   };
   guardrails?: string[];
+  /** Seconds a cacheable answer is reused for identical Asks; 0 disables caching */
+  cache_ttl_s?: number;
   examples?: Array<{
     input: unknown;
     output: unknown;
   }>;
 }
 
+interface CachedRole {
+  role: RoleDefinition;
+  mtimeMs: number;
+}
+
 export class RoleCatalog {
-  private readonly cache = new Map<string, RoleDefinition>();
+  private readonly cache = new Map<string, CachedRole>();
 
   constructor(
     private readonly promptsDir: string,
@@ -40,19 +48,21 @@ export class RoleCatalog {
    * Returns null if not found
    */
   load(roleId: string): RoleDefinition | null {
-    // Check cache first
-    if (this.cache.has(roleId)) {
-      return this.cache.get(roleId)!;
-    }
-
-    // Try to load from filesystem
     const filePath = this.resolveRolePath(roleId);
     if (!filePath || !existsSync(filePath)) {
+      this.cache.delete(roleId);
       this.logger.warn({ roleId, filePath }, 'Role definition not found');
       return null;
     }
 
     try {
+      // Check cache first; an edited file is loaded again
+      const mtimeMs = statSync(filePath).mtimeMs;
+      const cached = this.cache.get(roleId);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.role;
+      }
+
       const content = readFileSync(filePath, 'utf-8');
       const parsed = yaml.parse(content) as RoleDefinition;
 
@@ -63,7 +73,7 @@ export class RoleCatalog {
       }
 
       // Cache and return
-      this.cache.set(roleId, parsed);
+      this.cache.set(roleId, { role: parsed, mtimeMs });
       this.logger.debug({ roleId, filePath }, 'Role definition loaded');
       return parsed;
     } catch (error) {
@@ -85,8 +95,21 @@ export class RoleCatalog {
       return join(this.promptsDir, `${roleId}.yaml`);
     }
 
-    // Otherwise, try to find the latest version (v1 by default)
-    return join(this.promptsDir, `${roleId}@v1.yaml`);
+    // Otherwise, use the highest @v{N} file present (v1 by default)
+    const prefix = `${roleId}@v`;
+    let latest = { version: 1, file: `${prefix}1.yaml` };
+    const files = existsSync(this.promptsDir) ? readdirSync(this.promptsDir) : [];
+    for (const file of files) {
+      if (!file.startsWith(prefix) || !file.endsWith('.yaml')) {
+        continue;
+      }
+      const version = Number(file.slice(prefix.length, -'.yaml'.length));
+      if (Number.isInteger(version) && version > latest.version) {
+        latest = { version, file };
+      }
+    }
+
+    return join(this.promptsDir, latest.file);
   }
 
   /**
@@ -7,10 +7,15 @@ import Anthropic from '@anthropic-ai/sdk';
 import { createHash } from 'crypto';
 import type { Logger } from 'pino';
 import type { AskRecord, AnswerStatus, Attestation } from '../models/index.js';
-import { AskAnswerErrors } from '../models/index.js';
-import { stableHashContext, getEnvelopeValue } from '../utils/index.js';
-import { RoleCatalog } from './role-catalog.js';
+import { AskAnswerErrors, Result, Ok } from '../models/index.js';
+import { stableHashContext, getEnvelopeValue, computeDecisionKey } from '../utils/index.js';
+import { RoleCatalog, type RoleDefinition } from './role-catalog.js';
 import { PromptBuilder } from './prompt-builder.js';
+import { SchemaValidator, formatViolations, type SchemaViolation } from './schema-validator.js';
+import { ToolRegistry, ToolSession, type RepoSnapshot } from './tool-registry.js';
+import { createRepoTools } from './repo-tools.js';
+import { McpClientPool } from './mcp-client-pool.js';
+import type { McpServerConfig } from '../config/schema.js';
 
 export interface AnswerResult {
   status: AnswerStatus;
@@ -28,14 +33,33 @@ export interface RunnerConfig {
   model?: string;
   maxRetries?: number;
   defaultTimeout?: number;
+  /** Decision cache TTL for roles without `cache_ttl_s`; 0 disables caching */
+  cacheTtlSec?: number;
   promptsDir: string;
+  /** *.schema.json files here can be $ref'd by $id from output schemas */
+  schemataDir?: string;
+  /** Downstream MCP servers whose tools roles can whitelist as <name>.<tool> */
+  mcpServers?: McpServerConfig[];
+}
+
+export interface RunOptions {
+  /** The job's repository at its baseline commit, for the repo.* and tests.* tools */
+  snapshot?: RepoSnapshot | null;
+}
+
+export interface DecisionCacheKey {
+  decisionKey: string;
+  ttlSeconds: number;
 }
 
 export class AnswerRunner {
   private readonly anthropic: Anthropic;
   private readonly catalog: RoleCatalog;
   private readonly builder: PromptBuilder;
-  private readonly config: Required<RunnerConfig>;
+  private readonly validator: SchemaValidator;
+  private readonly tools: ToolRegistry;
+  private readonly mcp: McpClientPool;
+  private readonly config: Required<Omit<RunnerConfig, 'schemataDir' | 'mcpServers'>>;
 
   constructor(config: RunnerConfig, private readonly logger: Logger) {
     this.config = {
@@ -43,6 +67,7 @@ export class AnswerRunner {
       model: config.model ?? 'claude-3-5-sonnet-20241022',
       maxRetries: config.maxRetries ?? 1,
       defaultTimeout: config.defaultTimeout ?? 60,
+      cacheTtlSec: config.cacheTtlSec ?? 3600,
       promptsDir: config.promptsDir,
     };
 
@@ -53,12 +78,18 @@ export class AnswerRunner {
     this.anthropic = new Anthropic({ apiKey: this.config.apiKey });
     this.catalog = new RoleCatalog(this.config.promptsDir, logger);
     this.builder = new PromptBuilder();
+    this.validator = new SchemaValidator(config.schemataDir, logger);
+    this.tools = new ToolRegistry();
+    for (const tool of createRepoTools()) {
+      this.tools.register(tool);
+    }
+    this.mcp = new McpClientPool(config.mcpServers ?? [], logger);
   }
 
   /**
    * Process an Ask and generate an Answer
    */
-  async run(ask: AskRecord): Promise<AnswerResult> {
+  async run(ask: AskRecord, options: RunOptions = {}): Promise<AnswerResult> {
     this.logger.info({ askId: ask.askId, askType: ask.askType }, 'Processing Ask');
 
     // Verify context hash (fail-fast on mismatch)
@@ -80,8 +111,7 @@ export class AnswerRunner {
     }
 
     // Load role definition
-    const roleId = ask.roleId ?? this.catalog.getDefaultRoleForType(ask.askType);
-    const role = roleId ? this.catalog.load(roleId) : null;
+    const { roleId, role } = this.resolveRole(ask);
 
     if (ask.roleId && !role) {
       return {
@@ -113,32 +143,56 @@ export class AnswerRunner {
     const timeout = ask.constraints?.timeout_s ?? this.config.defaultTimeout;
     const maxTokens = ask.constraints?.max_tokens ?? role?.limits?.max_tokens ?? 4096;
 
-    // Try to get an answer (with retry)
+    const outputSchemas = this.outputSchemas(ask, role);
+
+    // One session for all attempts, so the call budget and tools_used cover the whole Ask
+    const snapshot = options.snapshot ?? null;
+    const mcpTools = await this.mcp.toolsFor(ask, role);
+    const session = new ToolSession(
+      this.tools.resolvePolicy(ask, role, snapshot, mcpTools),
+      snapshot,
+      this.logger
+    );
+
+    // Try to get an answer (with retry); schema violations are fed back into the next attempt
     let lastError: Error | null = null;
+    let attemptPrompt = prompt;
     for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
       try {
-        const result = await this.callLLM(prompt, maxTokens, timeout);
-        const parsed = this.parseResponse(result);
+        const result = await this.callLLM(attemptPrompt, maxTokens, timeout, session);
+        if (!result.ok) {
+          this.logger.warn(
+            { askId: ask.askId, error: result.error },
+            `Tool caps violation - ${AskAnswerErrors.E_CAPS_VIOLATION}`
+          );
+          return {
+            status: 'ERROR',
+            error: `${AskAnswerErrors.E_CAPS_VIOLATION}: ${result.error}`,
+            policyTrace: { toolCalls: session.trace },
+            cacheable: false,
+          };
+        }
 
-        // Validate JSON if output schema is specified
-        if (role?.output_schema && parsed.answerJson) {
-          const valid = this.validateJsonSchema(parsed.answerJson, role.output_schema);
-          if (!valid && attempt < this.config.maxRetries) {
+        const parsed = this.parseResponse(result.value);
+
+        // Validate JSON against the role and override output schemas; an ask-back has no answer yet
+        const violations = parsed.askBack ? [] : this.validateOutput(ask, parsed.answerJson, outputSchemas);
+        if (violations.length > 0) {
+          if (attempt < this.config.maxRetries) {
             this.logger.warn(
-              { askId: ask.askId, attempt },
+              { askId: ask.askId, attempt, violations },
               'JSON validation failed, retrying'
             );
-            lastError = new Error('JSON schema validation failed');
+            attemptPrompt = this.builder.build({ ...layers, feedback: this.builder.buildFeedbackLayer(violations) });
             continue;
           }
-          if (!valid) {
-            // Downgrade to text summary on final retry
-            return {
-              status: 'ANSWERED',
-              answerText: `Schema validation failed. Raw output: ${JSON.stringify(parsed.answerJson)}`,
-              cacheable: false,
-            };
-          }
+
+          return {
+            status: 'ERROR',
+            error: `${AskAnswerErrors.E_SCHEMA_VIOLATION}: Answer does not match the output schema: ${formatViolations(violations)}`,
+            policyTrace: { schemaViolations: violations },
+            cacheable: false,
+          };
         }
 
         // Generate attestation for the answer
@@ -146,14 +200,15 @@ export class AnswerRunner {
           ask,
           roleId ?? 'default',
           String(role?.version ?? '1.0'),
-          prompt,
-          ask.constraints?.allowed_tools ?? []
+          attemptPrompt,
+          session.toolsUsed
         );
 
         return {
           status: 'ANSWERED',
           ...parsed,
           attestation,
+          ...(session.trace.length > 0 ? { policyTrace: { toolCalls: session.trace } } : {}),
           cacheable: true,
         };
       } catch (error) {
@@ -183,39 +238,114 @@ export class AnswerRunner {
   }
 
   /**
-   * Call the LLM with the given prompt
+   * Stop downstream MCP servers
+   */
+  async close(): Promise<void> {
+    await this.mcp.close();
+  }
+
+  /**
+   * Decision cache key and TTL for an Ask, or null when its answer must not be cached:
+   * the context hash does not verify, the requested role is unknown, or the TTL is 0
+   */
+  decisionCacheKey(ask: AskRecord): DecisionCacheKey | null {
+    if (stableHashContext(ask.contextEnvelope) !== ask.contextHash) {
+      return null;
+    }
+
+    const { roleId, role } = this.resolveRole(ask);
+    if (ask.roleId && !role) {
+      return null;
+    }
+
+    const ttlSeconds = Math.floor(role?.cache_ttl_s ?? this.config.cacheTtlSec);
+    if (ttlSeconds <= 0) {
+      return null;
+    }
+
+    const decisionKey = computeDecisionKey({
+      roleId: roleId ?? 'default',
+      roleVersion: String(role?.version ?? '1.0'),
+      contextHash: ask.contextHash,
+      prompt: ask.prompt,
+      ...(role?.output_schema !== undefined ? { outputSchema: role.output_schema } : {}),
+      ...(ask.meta?.['prompt_overrides'] !== undefined ? { promptOverrides: ask.meta['prompt_overrides'] } : {}),
+    });
+
+    return { decisionKey, ttlSeconds };
+  }
+
+  /**
+   * Explicit role, else the default role for the Ask type
+   */
+  private resolveRole(ask: AskRecord): { roleId: string | null; role: RoleDefinition | null } {
+    const roleId = ask.roleId ?? this.catalog.getDefaultRoleForType(ask.askType);
+    return { roleId, role: roleId ? this.catalog.load(roleId) : null };
+  }
+
+  /**
+   * Call the LLM with the given prompt, running requested tools until it answers in text.
+   * Err is a tool caps violation; API failures and the overall timeout throw.
    */
   private async callLLM(
     prompt: string,
     maxTokens: number,
-    timeoutSeconds: number
-  ): Promise<string> {
+    timeoutSeconds: number,
+    session: ToolSession
+  ): Promise<Result<string, string>> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+    const tools = session.apiTools();
+    const messages: Anthropic.MessageParam[] = [
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ];
 
     try {
-      const response = await this.anthropic.messages.create(
-        {
-          model: this.config.model,
-          max_tokens: maxTokens,
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-        },
-        {
-          signal: controller.signal,
+      // Every round runs at least one tool call, so the session's call budget bounds the loop
+      for (;;) {
+        const response = await this.anthropic.messages.create(
+          {
+            model: this.config.model,
+            max_tokens: maxTokens,
+            messages,
+            ...(tools.length > 0 ? { tools } : {}),
+          },
+          {
+            signal: controller.signal,
+          }
+        );
+
+        const toolUses = response.content.filter(
+          (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+        );
+        if (response.stop_reason !== 'tool_use' || toolUses.length === 0) {
+          const textContent = response.content.find((c) => c.type === 'text');
+          if (!textContent || textContent.type !== 'text') {
+            throw new Error('No text content in LLM response');
+          }
+
+          return Ok(textContent.text);
         }
-      );
 
-      const textContent = response.content.find((c) => c.type === 'text');
-      if (!textContent || textContent.type !== 'text') {
-        throw new Error('No text content in LLM response');
-      }
+        const results: Anthropic.ToolResultBlockParam[] = [];
+        for (const toolUse of toolUses) {
+          const output = await session.call(toolUse.name, toolUse.input, controller.signal);
+          if (!output.ok) {
+            return output;
+          }
+          results.push({
+            type: 'tool_result',
+            tool_use_id: toolUse.id,
+            content: output.value.content,
+            ...(output.value.isError ? { is_error: true } : {}),
+          });
+        }
 
-      return textContent.text;
+        messages.push({ role: 'assistant', content: response.content }, { role: 'user', content: results });
+      }
     } finally {
       clearTimeout(timeoutId);
     }
@@ -265,24 +395,45 @@ export class AnswerRunner {
   }
 
   /**
-   * Validate JSON against a schema (basic check)
-   * In production, use a proper JSON Schema validator like Ajv
+   * Output schemas an answer must satisfy: the role's, then any prompt_overrides.output_schema
    */
-  private validateJsonSchema(data: unknown, schemaString: string): boolean {
-    try {
-      // For now, just check that we can parse the schema and data is an object/array
-      const schema = JSON.parse(schemaString) as { type?: string };
-      if (schema.type === 'object') {
-        return typeof data === 'object' && data !== null && !Array.isArray(data);
-      }
-      if (schema.type === 'array') {
-        return Array.isArray(data);
+  private outputSchemas(ask: AskRecord, role: RoleDefinition | null): unknown[] {
+    const schemas: unknown[] = [];
+    if (role?.output_schema) {
+      schemas.push(role.output_schema);
+    }
+
+    const overrides = ask.meta?.['prompt_overrides'] as { output_schema?: unknown } | undefined;
+    if (overrides?.output_schema !== undefined && overrides.output_schema !== null) {
+      schemas.push(overrides.output_schema);
+    }
+
+    return schemas;
+  }
+
+  /**
+   * Validate answer_json against each schema; a missing answer_json is itself a violation
+   */
+  private validateOutput(ask: AskRecord, answerJson: unknown, schemas: readonly unknown[]): SchemaViolation[] {
+    if (schemas.length === 0) {
+      return [];
+    }
+    if (answerJson === undefined) {
+      return [{ path: '', message: 'answer_json is required by the output schema' }];
+    }
+
+    const violations: SchemaViolation[] = [];
+    for (const schema of schemas) {
+      const result = this.validator.validate(answerJson, schema);
+      if (result.valid === null) {
+        // A broken schema is a role authoring error; don't fail every Ask on it
+        this.logger.warn({ askId: ask.askId, roleId: ask.roleId, error: result.error }, 'Skipping output schema');
+      } else if (!result.valid) {
+        violations.push(...result.violations);
       }
-      return true; // Allow any type if not specified
-    } catch {
-      // Schema parsing failed, skip validation
-      return true;
     }
+
+    return violations;
   }
 
   /**
@@ -0,0 +1,141 @@
+/**
+ * Output Schema Validator
+ * Validates answer_json against JSON Schema draft 2020-12 using Ajv.
+ * Every *.schema.json under the schemata directory is registered by its $id, so role
+ * output schemas can $ref the artifact schemas.
+ */
+
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join } from 'path';
+import { Ajv2020, type ErrorObject, type ValidateFunction } from 'ajv/dist/2020.js';
+import _addFormats, { type FormatsPlugin } from 'ajv-formats';
+import type { Logger } from 'pino';
+
+export interface SchemaViolation {
+  /** JSON Pointer into answer_json; '' is the document root */
+  path: string;
+  message: string;
+}
+
+export type SchemaValidation =
+  | { valid: true }
+  | { valid: false; violations: SchemaViolation[] }
+  | { valid: null; error: string }; // The schema itself could not be compiled
+
+const addFormats = _addFormats as unknown as FormatsPlugin;
+
+/**
+ * One violation per Ajv error, pointing at the offending value (or the missing property)
+ */
+export function toViolations(errors: readonly ErrorObject[]): SchemaViolation[] {
+  return errors.map((error) => {
+    const params = error.params as Record<string, unknown>;
+    const missing = error.keyword === 'required' ? params['missingProperty'] : undefined;
+    const extra = error.keyword === 'additionalProperties' ? params['additionalProperty'] : undefined;
+    const child = typeof missing === 'string' ? missing : typeof extra === 'string' ? extra : undefined;
+    const path = child === undefined ? error.instancePath : `${error.instancePath}/${escapePointer(child)}`;
+
+    let message = error.message ?? `must pass "${error.keyword}"`;
+    if (typeof missing === 'string') {
+      message = 'is required';
+    } else if (typeof extra === 'string') {
+      message = 'is not allowed';
+    } else if (error.keyword === 'enum' && Array.isArray(params['allowedValues'])) {
+      message = `must be one of ${params['allowedValues'].map((value) => JSON.stringify(value)).join(', ')}`;
+    }
+
+    return { path, message };
+  });
+}
+
+/**
+ * "/steps/0/why is required; /risks must be array"
+ */
+export function formatViolations(violations: readonly SchemaViolation[]): string {
+  return violations.map((violation) => `${violation.path || '/'} ${violation.message}`).join('; ');
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+export class SchemaValidator {
+  private readonly ajv = new Ajv2020({ allErrors: true, strict: false });
+
+  private readonly compiled = new Map<string, ValidateFunction>();
+
+  constructor(
+    schemataDir: string | undefined,
+    private readonly logger: Logger
+  ) {
+    addFormats(this.ajv);
+    if (schemataDir) {
+      this.registerSchemata(schemataDir);
+    }
+  }
+
+  /**
+   * Validate data against a schema given as JSON source or as an object
+   */
+  validate(data: unknown, schema: unknown): SchemaValidation {
+    const validateFn = this.compile(schema);
+    if (typeof validateFn === 'string') {
+      return { valid: null, error: validateFn };
+    }
+
+    if (validateFn(data)) {
+      return { valid: true };
+    }
+
+    return { valid: false, violations: toViolations(validateFn.errors ?? []) };
+  }
+
+  /**
+   * Compiled validator, or the reason the schema is unusable
+   */
+  private compile(schema: unknown): ValidateFunction | string {
+    const source = typeof schema === 'string' ? schema : JSON.stringify(schema);
+    const cached = this.compiled.get(source);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const parsed = typeof schema === 'string' ? (JSON.parse(schema) as unknown) : schema;
+      if (typeof parsed !== 'object' && typeof parsed !== 'boolean') {
+        return 'Output schema must be a JSON object';
+      }
+      const validateFn = this.ajv.compile(parsed as object | boolean);
+      this.compiled.set(source, validateFn);
+      return validateFn;
+    } catch (error) {
+      return `Invalid output schema: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  private registerSchemata(dir: string): void {
+    if (!existsSync(dir)) {
+      this.logger.debug({ schemataDir: dir }, 'Schemata directory not found');
+      return;
+    }
+
+    const files = readdirSync(dir, { recursive: true, encoding: 'utf-8' }).filter((file) =>
+      file.endsWith('.schema.json')
+    );
+
+    for (const file of files) {
+      try {
+        const schema = JSON.parse(readFileSync(join(dir, file), 'utf-8')) as Record<string, unknown>;
+        if (typeof schema['$id'] !== 'string') {
+          continue;
+        }
+        this.ajv.addSchema(schema);
+      } catch (error) {
+        this.logger.warn(
+          { file, error: error instanceof Error ? error.message : String(error) },
+          'Failed to register schema'
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Tool Registry
+ * Tools the Answer Runner can execute during a tool-use loop, and the per-Ask session that
+ * enforces which tools are offered, how often they are called and how long each call may run.
+ * Tool names are <prefix>.<tool>; whitelist and allowed_tools entries may be a name or <prefix>.*.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import type { Logger } from 'pino';
+import type { AskRecord, ContextEnvelope } from '../models/index.js';
+import { Result, Ok, Err } from '../models/index.js';
+import type { RoleDefinition } from './role-catalog.js';
+
+/**
+ * A job's repository at its baseline commit; tools only read git objects from here
+ */
+export interface RepoSnapshot {
+  /** Arguments that select the repository, e.g. ['--git-dir', mirror] or ['-C', path] */
+  gitArgs: string[];
+  commit: string;
+}
+
+export interface ToolContext {
+  snapshot: RepoSnapshot | null;
+  signal: AbortSignal;
+}
+
+export interface ToolDefinition {
+  /** Dotted name as used in role tool_whitelist and Ask allowed_tools, e.g. repo.search or db.query */
+  name: string;
+  description: string;
+  inputSchema: Anthropic.Tool.InputSchema;
+  readOnly: boolean;
+  requiresSnapshot: boolean;
+  /** Err is reported to the model as a failed tool result, not to the Ask */
+  execute(input: unknown, context: ToolContext): Promise<Result<string, string>>;
+}
+
+export type ToolCaps = NonNullable<ContextEnvelope['tool_caps']>;
+
+export interface ToolPolicy {
+  tools: ToolDefinition[];
+  maxCalls: number;
+  caps: ToolCaps;
+}
+
+export interface ToolCallTrace {
+  tool: string;
+  ok: boolean;
+  durationMs: number;
+}
+
+export interface ToolOutput {
+  content: string;
+  isError: boolean;
+}
+
+export const DEFAULT_MAX_TOOL_CALLS = 10;
+export const DEFAULT_TOOL_TIMEOUT_MS = 10_000;
+
+/**
+ * API tool names must match ^[a-zA-Z0-9_-]{1,64}$, so repo.search is offered as repo_search
+ */
+export function toApiToolName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+export function matchesToolPattern(pattern: string, name: string): boolean {
+  return pattern === name || (pattern.endsWith('.*') && name.startsWith(pattern.slice(0, -1)));
+}
+
+/**
+ * Whether any tool under `prefix` could be offered for the Ask, e.g. before launching an MCP server
+ */
+export function requestsToolPrefix(ask: AskRecord, role: RoleDefinition | null, prefix: string): boolean {
+  const underPrefix = (pattern: string): boolean => pattern.startsWith(`${prefix}.`);
+  const allowed = ask.constraints?.allowed_tools;
+  return (role?.tool_whitelist ?? []).some(underPrefix) && (!allowed || allowed.some(underPrefix));
+}
+
+/**
+ * Caps for a tool, falling back to those for its prefix (tool_caps.db covers db.query)
+ */
+export function capsForTool(caps: ToolCaps, name: string): ToolCaps[string] | undefined {
+  return caps[name] ?? caps[name.split('.')[0] ?? name];
+}
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, ToolDefinition>();
+
+  register(tool: ToolDefinition): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  /**
+   * Tools offered for an Ask, from this registry plus `extraTools` (e.g. from MCP servers):
+   * those in the role's tool_whitelist, narrowed by the Ask's allowed_tools. Write tools are
+   * dropped when tool_caps marks them read_only, and repository tools when the job has no
+   * snapshot. The call budget is the lower of the role and Ask limits.
+   */
+  resolvePolicy(
+    ask: AskRecord,
+    role: RoleDefinition | null,
+    snapshot: RepoSnapshot | null,
+    extraTools: readonly ToolDefinition[] = []
+  ): ToolPolicy {
+    const caps: ToolCaps = ask.contextEnvelope.tool_caps ?? {};
+    const whitelist = role?.tool_whitelist ?? [];
+    const allowed = ask.constraints?.allowed_tools;
+
+    const tools: ToolDefinition[] = [];
+    for (const tool of [...this.tools.values(), ...extraTools]) {
+      const permitted = (patterns: readonly string[]): boolean =>
+        patterns.some((pattern) => matchesToolPattern(pattern, tool.name));
+      if (!permitted(whitelist) || (allowed && !permitted(allowed))) {
+        continue;
+      }
+      if (capsForTool(caps, tool.name)?.read_only === true && !tool.readOnly) {
+        continue;
+      }
+      if (tool.requiresSnapshot && !snapshot) {
+        continue;
+      }
+      tools.push(tool);
+    }
+
+    const limits = [role?.limits?.max_tool_calls, ask.constraints?.max_tool_calls].filter(
+      (limit): limit is number => limit !== undefined
+    );
+    const maxCalls = limits.length > 0 ? Math.min(...limits) : DEFAULT_MAX_TOOL_CALLS;
+
+    return { tools: maxCalls > 0 ? tools : [], maxCalls, caps };
+  }
+}
+
+/**
+ * One Ask's tool use. Calling a tool that was not offered, exceeding the call budget or
+ * overrunning a tool's timeout_ms is a caps violation (Err) that ends the Ask.
+ */
+export class ToolSession {
+  readonly trace: ToolCallTrace[] = [];
+
+  private readonly byApiName = new Map<string, ToolDefinition>();
+
+  constructor(
+    private readonly policy: ToolPolicy,
+    private readonly snapshot: RepoSnapshot | null,
+    private readonly logger: Logger
+  ) {
+    for (const tool of policy.tools) {
+      this.byApiName.set(toApiToolName(tool.name), tool);
+    }
+  }
+
+  /**
+   * Distinct tools actually called, in first-use order
+   */
+  get toolsUsed(): string[] {
+    return [...new Set(this.trace.map((call) => call.tool))];
+  }
+
+  /**
+   * Tool definitions for the Messages API; empty when no tool is offered
+   */
+  apiTools(): Anthropic.Tool[] {
+    return this.policy.tools.map((tool) => ({
+      name: toApiToolName(tool.name),
+      description: tool.description,
+      input_schema: tool.inputSchema,
+    }));
+  }
+
+  async call(apiName: string, input: unknown, signal: AbortSignal): Promise<Result<ToolOutput, string>> {
+    const tool = this.byApiName.get(apiName);
+    if (!tool) {
+      return Err(`Tool ${apiName} is not allowed for this Ask`);
+    }
+    if (this.trace.length >= this.policy.maxCalls) {
+      return Err(`Tool call limit of ${this.policy.maxCalls} exceeded (attempted ${tool.name})`);
+    }
+
+    const timeoutMs = capsForTool(this.policy.caps, tool.name)?.timeout_ms ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const startedAt = Date.now();
+
+    let result: Result<string, string>;
+    try {
+      result = await tool.execute(input, { snapshot: this.snapshot, signal: AbortSignal.any([signal, timeout]) });
+    } catch (error) {
+      result = Err(error instanceof Error ? error.message : String(error));
+    }
+
+    const durationMs = Date.now() - startedAt;
+    this.trace.push({ tool: tool.name, ok: result.ok, durationMs });
+
+    if (timeout.aborted && !signal.aborted) {
+      return Err(`Tool ${tool.name} exceeded its ${timeoutMs}ms timeout`);
+    }
+
+    this.logger.debug({ tool: tool.name, ok: result.ok, durationMs }, 'Tool call finished');
+    return Ok(result.ok ? { content: result.value, isError: false } : { content: result.error, isError: true });
+  }
+}
@@ -30,6 +30,16 @@ function applyConfigDir(dir: string): void {
   if (!process.env['TASK_RELAY_POLICY_FILE'] && existsSync(policy) && statSync(policy).isFile()) {
     process.env['TASK_RELAY_POLICY_FILE'] = policy;
   }
+
+  const executors = join(absolute, 'executors.yaml');
+  if (!process.env['TASK_RELAY_EXECUTORS_FILE'] && existsSync(executors) && statSync(executors).isFile()) {
+    process.env['TASK_RELAY_EXECUTORS_FILE'] = executors;
+  }
+
+  const mcpServers = join(absolute, 'mcp-servers.yaml');
+  if (!process.env['TASK_RELAY_MCP_SERVERS_FILE'] && existsSync(mcpServers) && statSync(mcpServers).isFile()) {
+    process.env['TASK_RELAY_MCP_SERVERS_FILE'] = mcpServers;
+  }
 }
 
 async function serve(opts: ServeOptions): Promise<void> {
@@ -65,6 +75,57 @@ async function serve(opts: ServeOptions): Promise<void> {
   await startTaskRelayServer({ askAnswer: true, webUi: process.env['TASK_RELAY_WEB_UI'] === 'true' });
 }
 
+interface DrainOptions {
+  port?: string;
+}
+
+/**
+ * Ask a running server to drain over its Ask/Answer port, then exit
+ */
+async function drain(opts: DrainOptions): Promise<void> {
+  const port = opts.port ?? process.env['ASK_ANSWER_PORT'] ?? '3415';
+  const response = await fetch(`http://127.0.0.1:${port}/drain`, { method: 'POST' });
+  if (!response.ok) {
+    throw new Error(`Drain request failed: ${response.status} ${await response.text()}`);
+  }
+  console.log(`Task Relay on port ${port} is draining`);
+}
+
+interface CacheOptions {
+  port?: string;
+}
+
+interface CacheInvalidateOptions extends CacheOptions {
+  role?: string;
+  policyVersion?: string;
+  prefix?: string;
+}
+
+function askAnswerOrigin(opts: CacheOptions): string {
+  return `http://127.0.0.1:${opts.port ?? process.env['ASK_ANSWER_PORT'] ?? '3415'}`;
+}
+
+async function cacheStats(opts: CacheOptions): Promise<void> {
+  const response = await fetch(`${askAnswerOrigin(opts)}/decision-cache`);
+  if (!response.ok) {
+    throw new Error(`Stats request failed: ${response.status} ${await response.text()}`);
+  }
+  console.log(JSON.stringify(await response.json(), null, 2));
+}
+
+async function cacheInvalidate(opts: CacheInvalidateOptions): Promise<void> {
+  const response = await fetch(`${askAnswerOrigin(opts)}/decision-cache/invalidate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ roleId: opts.role, policyVersion: opts.policyVersion, keyPrefix: opts.prefix }),
+  });
+  if (!response.ok) {
+    throw new Error(`Invalidate request failed: ${response.status} ${await response.text()}`);
+  }
+  const { removed } = (await response.json()) as { removed: number };
+  console.log(`Removed ${removed} cached decision${removed === 1 ? '' : 's'}`);
+}
+
 const program = new Command();
 program.name('mcp-task-relay').description('MCP Task Relay CLI').version('0.2.0');
 
@@ -83,6 +144,46 @@ program
     });
   });
 
+program
+  .command('drain')
+  .description('Stop a running server from leasing jobs, requeue unfinished ones and shut it down')
+  .option('--port <port>', 'Ask/Answer HTTP port of the server (default: ASK_ANSWER_PORT or 3415)')
+  .action((opts: DrainOptions) => {
+    drain(opts).catch((error) => {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    });
+  });
+
+const cache = program
+  .command('cache')
+  .description('Inspect or invalidate the Answer Runner decision cache of a running server');
+
+cache
+  .command('stats')
+  .description('Show entry counts per role and hit/miss/eviction counters')
+  .option('--port <port>', 'Ask/Answer HTTP port of the server (default: ASK_ANSWER_PORT or 3415)')
+  .action((opts: CacheOptions) => {
+    cacheStats(opts).catch((error) => {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    });
+  });
+
+cache
+  .command('invalidate')
+  .description('Delete cached decisions matching all given filters, e.g. after bumping a role version')
+  .option('--role <roleId>', 'Role ID; matches every version of the role')
+  .option('--policy-version <version>', 'Policy version recorded in the attestation')
+  .option('--prefix <keyPrefix>', 'Leading hex characters of the decision key')
+  .option('--port <port>', 'Ask/Answer HTTP port of the server (default: ASK_ANSWER_PORT or 3415)')
+  .action((opts: CacheInvalidateOptions) => {
+    cacheInvalidate(opts).catch((error) => {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    });
+  });
+
 program.parseAsync(process.argv).catch((error) => {
   console.error(error instanceof Error ? error.message : String(error));
   process.exit(1);
@@ -4,6 +4,8 @@
  */
 
 import { config as loadDotenv } from 'dotenv';
+import { readFileSync } from 'fs';
+import * as yaml from 'yaml';
 import { ConfigSchema, type Config } from './schema.js';
 import { Result, Ok, Err } from '../models/index.js';
 
@@ -23,6 +25,17 @@ function getEnvNumber(key: string, defaultValue?: number): number | undefined {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+function getEnvList(key: string, defaultValue?: string[]): string[] | undefined {
+  const value = process.env[key];
+  if (value === undefined) {
+    return defaultValue;
+  }
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
 function getEnvBoolean(key: string, defaultValue?: boolean): boolean | undefined {
   const value = process.env[key];
   if (value === undefined) {
@@ -31,6 +44,27 @@ function getEnvBoolean(key: string, defaultValue?: boolean): boolean | undefined
   return value === 'true' || value === '1';
 }
 
+/**
+ * Read a top-level list from a YAML (or JSON) file, e.g. `commands:` in executors.yaml
+ * Entries are validated by ConfigSchema.
+ */
+function loadListFromFile(file: string | undefined, key: string): Result<unknown[], string> {
+  if (!file) {
+    return Ok([]);
+  }
+
+  try {
+    const parsed = yaml.parse(readFileSync(file, 'utf-8')) as Record<string, unknown> | null;
+    const list = parsed?.[key] ?? [];
+    if (!Array.isArray(list)) {
+      return Err(`Invalid file ${file}: ${key} must be a list`);
+    }
+    return Ok(list);
+  } catch (error) {
+    return Err(`Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 const PROFILE_VALUES = new Set(['dev', 'staging', 'prod']);
 
 function normalizeProfile(value: string | undefined): 'dev' | 'staging' | 'prod' {
@@ -58,6 +92,22 @@ export function loadConfig(): Result<Config, string> {
         ? getEnv('TASK_RELAY_SQLITE_URL', getEnv('DB_PATH', './.tmp/dev.sqlite'))
         : getEnv('TASK_RELAY_SQLITE_URL', 'file:mcp-task-relay?mode=memory&cache=shared');
 
+    const executorsFile = process.env['TASK_RELAY_EXECUTORS_FILE'];
+    const commandsResult = loadListFromFile(executorsFile, 'commands');
+    if (!commandsResult.ok) {
+      return commandsResult;
+    }
+
+    const fixturesResult = loadListFromFile(process.env['MOCK_EXECUTOR_FIXTURES'], 'fixtures');
+    if (!fixturesResult.ok) {
+      return fixturesResult;
+    }
+
+    const mcpServersResult = loadListFromFile(process.env['TASK_RELAY_MCP_SERVERS_FILE'], 'servers');
+    if (!mcpServersResult.ok) {
+      return mcpServersResult;
+    }
+
     const config = {
       runtime: {
         profile,
@@ -65,6 +115,7 @@ export function loadConfig(): Result<Config, string> {
         promptsDir: process.env['TASK_RELAY_PROMPTS_DIR'],
         schemataDir: process.env['TASK_RELAY_SCHEMATA_DIR'],
         policyFile: process.env['TASK_RELAY_POLICY_FILE'],
+        executorsFile,
       },
       server: {
         artifactRoot: getEnv('ARTIFACT_ROOT', './artifacts'),
@@ -72,12 +123,29 @@ export function loadConfig(): Result<Config, string> {
         heartbeatIntervalSec: getEnvNumber('HEARTBEAT_INTERVAL_SEC', 15),
         leaseTtlSec: getEnvNumber('LEASE_TTL_SEC', 60),
         workerPollIntervalMs: getEnvNumber('WORKER_POLL_INTERVAL_MS', 5000),
+        workerPollMaxIntervalMs: getEnvNumber('WORKER_POLL_MAX_INTERVAL_MS', 30000),
         jobTimeoutCheckIntervalMs: getEnvNumber('JOB_TIMEOUT_CHECK_INTERVAL_MS', 30000),
+        staleMaxAttempts: getEnvNumber('STALE_MAX_ATTEMPTS', 2),
+        concurrencyGroupLimit: getEnvNumber('CONCURRENCY_GROUP_LIMIT', 1),
+        schedulerIntervalMs: getEnvNumber('SCHEDULER_INTERVAL_MS', 15000),
+        priorityAgingSec: getEnvNumber('PRIORITY_AGING_SEC', 1800),
+        drainGraceSec: getEnvNumber('DRAIN_GRACE_SEC', 30),
+      },
+      repoCache: {
+        dir: getEnv('REPO_CACHE_DIR'),
+        gcIntervalMs: getEnvNumber('REPO_CACHE_GC_INTERVAL_MS', 3600000),
+        maxIdleSec: getEnvNumber('REPO_CACHE_MAX_IDLE_SEC', 604800),
       },
       askAnswer: {
         port: getEnvNumber('ASK_ANSWER_PORT', 3415),
         longPollTimeoutSec: getEnvNumber('ASK_ANSWER_WAIT_SEC', 25),
         sseHeartbeatSec: getEnvNumber('ASK_ANSWER_SSE_HEARTBEAT_SEC', 10),
+        runner: {
+          enabled: getEnvBoolean('TASK_RELAY_ANSWER_RUNNER_ENABLED', true),
+          cacheTtlSec: getEnvNumber('TASK_RELAY_DECISION_CACHE_TTL_SEC', 3600),
+          cacheMaxEntries: getEnvNumber('TASK_RELAY_DECISION_CACHE_MAX_ENTRIES', 10000),
+          mcpServers: mcpServersResult.value,
+        },
       },
       storage: {
         mode: storageMode,
@@ -96,11 +164,31 @@ export function loadConfig(): Result<Config, string> {
           binary: getEnv('CODEX_BINARY', 'codex'),
           defaultModel: getEnv('CODEX_DEFAULT_MODEL', 'gpt-4'),
           enableSearch: getEnvBoolean('CODEX_ENABLE_SEARCH', true),
+          modelPatterns: getEnvList('CODEX_MODEL_PATTERNS'),
         },
         claudeCode: {
           enabled: getEnvBoolean('CLAUDE_ENABLED', false),
           binary: getEnv('CLAUDE_BINARY', 'claude'),
           defaultModel: getEnv('CLAUDE_DEFAULT_MODEL', 'claude-sonnet-4'),
+          modelPatterns: getEnvList('CLAUDE_MODEL_PATTERNS'),
+        },
+        openaiCompatible: {
+          enabled: getEnvBoolean('OPENAI_COMPAT_ENABLED', false),
+          baseUrl: getEnv('OPENAI_COMPAT_BASE_URL'),
+          apiKey: getEnv('OPENAI_COMPAT_API_KEY'),
+          defaultModel: getEnv('OPENAI_COMPAT_DEFAULT_MODEL'),
+          modelPatterns: getEnvList('OPENAI_COMPAT_MODEL_PATTERNS'),
+        },
+        mock: {
+          enabled: getEnvBoolean('MOCK_EXECUTOR_ENABLED', false),
+          modelPatterns: getEnvList('MOCK_EXECUTOR_MODEL_PATTERNS'),
+          fixtures: fixturesResult.value,
+        },
+        commands: commandsResult.value,
+        fallback: {
+          dev: getEnvList('EXECUTOR_FALLBACK_DEV'),
+          staging: getEnvList('EXECUTOR_FALLBACK_STAGING'),
+          prod: getEnvList('EXECUTOR_FALLBACK_PROD'),
         },
       },
       notify: {
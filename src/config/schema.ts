@@ -3,6 +3,82 @@
  */
 
 import { z } from 'zod';
+import { AskTypeSchema } from '../models/schemas.js';
+
+/**
+ * A local agent CLI run through the generic command executor
+ * Args may use {prompt}, {model} and {workdir} placeholders.
+ */
+export const CommandExecutorConfigSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9-]*$/, 'lowercase letters, digits and dashes'),
+  binary: z.string().min(1),
+  args: z.array(z.string()).default(['{prompt}']),
+  promptInput: z.enum(['argv', 'stdin']).default('argv'),
+  parser: z.enum(['sections', 'diff', 'git-diff']).default('sections'),
+  defaultModel: z.string().default(''),
+  modelPatterns: z.array(z.string().min(1)).default([]),
+  env: z.record(z.string(), z.string()).default({}),
+});
+
+export type CommandExecutorConfig = z.infer<typeof CommandExecutorConfigSchema>;
+
+/**
+ * Scripted result for the mock executor
+ * Matched by idempotencyKey, then taskTitle; a fixture with neither matches any job.
+ */
+export const MockFixtureSchema = z.object({
+  idempotencyKey: z.string().optional(),
+  taskTitle: z.string().optional(),
+  delayMs: z.number().int().min(0).default(0),
+  result: z.enum(['success', 'failure', 'timeout']).default('success'),
+  failFirst: z.number().int().min(0).default(0), // Fail this many runs before `result` applies
+  failure: z
+    .object({
+      reasonCode: z.enum(['BAD_ARTIFACTS', 'EXECUTOR_ERROR', 'TIMEOUT']).default('EXECUTOR_ERROR'),
+      message: z.string().default('Scripted mock failure'),
+    })
+    .default({}),
+  ask: z
+    .object({
+      type: AskTypeSchema,
+      prompt: z.string().min(1),
+      roleId: z.string().optional(),
+      allowedTools: z.array(z.string()).optional(),
+    })
+    .optional(),
+  output: z
+    .object({
+      diff: z.string().default(''),
+      testPlan: z.string().default(''),
+      notes: z.string().default(''),
+    })
+    .default({}),
+});
+
+export type MockFixture = z.infer<typeof MockFixtureSchema>;
+
+/**
+ * A downstream MCP server launched over stdio by the Answer Runner
+ * Its tools are offered to the model as <name>.<tool>, e.g. db.query.
+ */
+export const McpServerConfigSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9-]*$/, 'lowercase letters, digits and dashes'),
+  command: z.string().min(1),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string(), z.string()).default({}),
+  cwd: z.string().optional(),
+  /** Tools treated as read-only in addition to those annotated with readOnlyHint */
+  readOnlyTools: z.array(z.string()).default([]),
+  /** Stop the server after this long without a tool call; it is relaunched on demand */
+  idleTimeoutSec: z.number().int().positive().default(300),
+});
+
+export type McpServerConfig = z.infer<typeof McpServerConfigSchema>;
+
+// Built-in Answer Runner tool prefixes (repo.search, tests.lookup)
+const BUILTIN_TOOL_PREFIXES = ['repo', 'tests'];
+
+const BUILTIN_EXECUTOR_NAMES = ['codex-cli', 'claude-code', 'openai-compatible', 'mock'];
 
 export const ConfigSchema = z.object({
   runtime: z.object({
@@ -11,6 +87,7 @@ export const ConfigSchema = z.object({
     promptsDir: z.string().optional(),
     schemataDir: z.string().optional(),
     policyFile: z.string().optional(),
+    executorsFile: z.string().optional(),
   }),
 
   server: z.object({
@@ -19,7 +96,19 @@ export const ConfigSchema = z.object({
     heartbeatIntervalSec: z.number().int().positive().default(15),
     leaseTtlSec: z.number().int().positive().default(60),
     workerPollIntervalMs: z.number().int().positive().default(5000),
+    workerPollMaxIntervalMs: z.number().int().positive().default(30000),
     jobTimeoutCheckIntervalMs: z.number().int().positive().default(30000),
+    staleMaxAttempts: z.number().int().positive().default(2),
+    concurrencyGroupLimit: z.number().int().positive().default(1),
+    schedulerIntervalMs: z.number().int().positive().default(15000),
+    priorityAgingSec: z.number().int().min(0).default(1800),
+    drainGraceSec: z.number().int().min(0).default(30),
+  }),
+
+  repoCache: z.object({
+    dir: z.string().optional(), // Defaults to <artifactRoot>/.repo-cache
+    gcIntervalMs: z.number().int().positive().default(3600000),
+    maxIdleSec: z.number().int().positive().default(604800),
   }),
 
   askAnswer: z.object({
@@ -31,6 +120,23 @@ export const ConfigSchema = z.object({
       model: z.string().default('claude-3-5-sonnet-20241022'),
       maxRetries: z.number().int().min(0).max(3).default(1),
       defaultTimeout: z.number().int().positive().default(60),
+      /** Decision cache TTL for roles without cache_ttl_s; 0 disables caching */
+      cacheTtlSec: z.number().int().min(0).default(3600),
+      /** Decision cache size cap, least recently used entries evicted first; 0 disables the cap */
+      cacheMaxEntries: z.number().int().min(0).default(10000),
+      mcpServers: z.array(McpServerConfigSchema).default([]),
+    }).superRefine((runner, ctx) => {
+      const seen = new Set(BUILTIN_TOOL_PREFIXES);
+      runner.mcpServers.forEach((server, index) => {
+        if (seen.has(server.name)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['mcpServers', index, 'name'],
+            message: `Duplicate tool prefix: ${server.name}`,
+          });
+        }
+        seen.add(server.name);
+      });
     }),
   }),
 
@@ -53,12 +159,47 @@ export const ConfigSchema = z.object({
       binary: z.string().default('codex'),
       defaultModel: z.string().default('gpt-4'),
       enableSearch: z.boolean().default(true),
+      modelPatterns: z.array(z.string().min(1)).default(['gpt-*', 'o1*', 'o3*', 'o4*', 'codex-*']),
     }),
     claudeCode: z.object({
       enabled: z.boolean().default(false),
       binary: z.string().default('claude'),
       defaultModel: z.string().default('claude-sonnet-4'),
+      modelPatterns: z.array(z.string().min(1)).default(['claude-*']),
+    }),
+    openaiCompatible: z.object({
+      enabled: z.boolean().default(false),
+      baseUrl: z.string().url().default('http://localhost:11434/v1'),
+      apiKey: z.string().optional(),
+      defaultModel: z.string().default('qwen2.5-coder'),
+      modelPatterns: z.array(z.string().min(1)).default([]),
+      temperature: z.number().min(0).max(2).optional(),
+      maxTokens: z.number().int().positive().optional(),
+    }),
+    mock: z.object({
+      enabled: z.boolean().default(false),
+      modelPatterns: z.array(z.string().min(1)).default(['mock-*']),
+      fixtures: z.array(MockFixtureSchema).default([]),
+    }),
+    commands: z.array(CommandExecutorConfigSchema).default([]),
+    // Executors tried in order after the routed one fails with BAD_ARTIFACTS or EXECUTOR_ERROR
+    fallback: z.object({
+      dev: z.array(z.string().min(1)).default([]),
+      staging: z.array(z.string().min(1)).default([]),
+      prod: z.array(z.string().min(1)).default([]),
     }),
+  }).superRefine((executors, ctx) => {
+    const seen = new Set(BUILTIN_EXECUTOR_NAMES);
+    executors.commands.forEach((command, index) => {
+      if (seen.has(command.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['commands', index, 'name'],
+          message: `Duplicate executor name: ${command.name}`,
+        });
+      }
+      seen.add(command.name);
+    });
   }),
 
   notify: z.object({
@@ -4,3 +4,9 @@
 
 export * from './job-manager.js';
 export * from './worker.js';
+export * from './work-signal.js';
+export * from './retry.js';
+export * from './priority.js';
+export * from './job-graph.js';
+export * from './sweeper.js';
+export * from './scheduler.js';
@@ -0,0 +1,57 @@
+/**
+ * Job dependency graphs - ordering for jobs_submit_graph
+ */
+
+import type { JobSpec } from '../models/index.js';
+import { Result, Ok, Err } from '../models/index.js';
+
+/**
+ * Order graph jobs so every sibling parent comes before its children
+ * Parents that are not idempotency keys in the batch are left for submit to resolve as job IDs.
+ */
+export function orderJobGraph(specs: readonly JobSpec[]): Result<JobSpec[], string> {
+  const byKey = new Map<string, JobSpec>();
+  for (const spec of specs) {
+    if (byKey.has(spec.idempotencyKey)) {
+      return Err(`Duplicate idempotencyKey in graph: ${spec.idempotencyKey}`);
+    }
+    byKey.set(spec.idempotencyKey, spec);
+  }
+
+  const ordered: JobSpec[] = [];
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+
+  const visit = (spec: JobSpec, path: string[]): string | null => {
+    if (done.has(spec.idempotencyKey)) {
+      return null;
+    }
+    if (visiting.has(spec.idempotencyKey)) {
+      return `Dependency cycle: ${[...path, spec.idempotencyKey].join(' -> ')}`;
+    }
+
+    visiting.add(spec.idempotencyKey);
+    for (const parentKey of spec.dependsOn ?? []) {
+      const parent = byKey.get(parentKey);
+      if (parent) {
+        const error = visit(parent, [...path, spec.idempotencyKey]);
+        if (error) {
+          return error;
+        }
+      }
+    }
+    visiting.delete(spec.idempotencyKey);
+    done.add(spec.idempotencyKey);
+    ordered.push(spec);
+    return null;
+  };
+
+  for (const spec of specs) {
+    const error = visit(spec, []);
+    if (error) {
+      return Err(error);
+    }
+  }
+
+  return Ok(ordered);
+}
@@ -7,11 +7,15 @@ import type { Logger } from 'pino';
 import {
   JobsRepository,
   EventsRepository,
+  AttemptsRepository,
   AsksRepository,
   AnswersRepository,
   DecisionCacheRepository,
+  SchedulesRepository,
+  WorkersRepository,
   type CreateAskParams,
   type CreateAnswerParams,
+  type UpdateJobStateParams,
 } from '../db/index.js';
 import { ArtifactsService } from '../services/artifacts.js';
 import type {
@@ -21,6 +25,10 @@ import type {
   FailReason,
   JobStatus,
   SubmitResponse,
+  SubmitGraphResponse,
+  ScheduleSubmitResponse,
+  ScheduleRecord,
+  WorkersListResponse,
   GetResponse,
   ListResponse,
   CancelResponse,
@@ -37,12 +45,37 @@ import {
   AskPayloadSchema,
   AnswerPayloadSchema,
   type DecisionCacheRecord,
+  type DecisionCacheStats,
+  type DecisionCacheInvalidateRequest,
+  type DecisionCacheInvalidateResponse,
+  type Attestation,
+  DecisionCacheInvalidateRequestSchema,
 } from '../models/index.js';
 import { Result, Ok, Err } from '../models/index.js';
-import { isTerminalState } from '../models/index.js';
-import { generateJobId } from '../utils/index.js';
+import { isTerminalState, canTransition, workerStatus } from '../models/index.js';
+import { generateJobId, generateScheduleId, parseCron, nextCronTime } from '../utils/index.js';
+import { computeBackoffMs } from './retry.js';
+import { effectivePriority } from './priority.js';
+import { orderJobGraph } from './job-graph.js';
+import { WorkSignal } from './work-signal.js';
 import { EventEmitter } from 'events';
 
+export interface JobManagerConfig {
+  /** Queued time that raises a job by one priority level; 0 disables aging */
+  priorityAgingMs: number;
+  /** Heartbeat age after which a worker is reported UNRESPONSIVE */
+  workerStaleMs: number;
+  /** Decision cache size cap, enforced least recently used first; 0 disables the cap */
+  decisionCacheMaxEntries: number;
+}
+
+/** Worker rows not heard from for this long are pruned by the sweeper */
+const WORKER_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+class GraphSubmitError extends Error {}
+
+class ScheduleTickTakenError extends Error {}
+
 type JobManagerEventMap = {
   'ask.created': { ask: AskRecord };
   'answer.recorded': { answer: AnswerRecord };
@@ -59,28 +92,58 @@ export class JobManager {
 
   private readonly eventsRepo: EventsRepository;
 
+  private readonly attemptsRepo: AttemptsRepository;
+
   private readonly asksRepo: AsksRepository;
 
   private readonly answersRepo: AnswersRepository;
 
   private readonly decisionCacheRepo: DecisionCacheRepository;
 
+  private readonly schedulesRepo: SchedulesRepository;
+
+  private readonly workersRepo: WorkersRepository;
+
   private readonly eventBus = new EventEmitter();
 
+  private readonly decisionCacheCounters = { hits: 0, misses: 0, evicted: 0, purged: 0, invalidated: 0 };
+
+  private failingBlockedJobs = false;
+
   constructor(
-    db: Database,
+    private readonly db: Database,
     _artifacts: ArtifactsService,
-    private readonly logger: Logger
+    private readonly logger: Logger,
+    private readonly config: JobManagerConfig = {
+      priorityAgingMs: 0,
+      workerStaleMs: 60_000,
+      decisionCacheMaxEntries: 10_000,
+    },
+    private readonly workSignal: WorkSignal = new WorkSignal()
   ) {
     this.jobsRepo = new JobsRepository(db);
 
     this.eventsRepo = new EventsRepository(db);
 
+    this.attemptsRepo = new AttemptsRepository(db);
+
     this.asksRepo = new AsksRepository(db);
 
     this.answersRepo = new AnswersRepository(db);
 
     this.decisionCacheRepo = new DecisionCacheRepository(db);
+
+    this.schedulesRepo = new SchedulesRepository(db);
+
+    this.workersRepo = new WorkersRepository(db);
+
+    // Workers change job state without the JobManager, so fail dependents when their attempts end
+    this.workSignal.onAttemptEnded((jobId) => {
+      const jobResult = this.jobsRepo.getById(asJobId(jobId));
+      if (jobResult.ok) {
+        this.failDependentsOf(jobResult.value.state);
+      }
+    });
   }
 
   on<K extends keyof JobManagerEventMap>(
@@ -99,58 +162,121 @@ export class JobManager {
 
   async submit(spec: JobSpec): Promise<Result<SubmitResponse, string>> {
     try {
-      // Check for existing job with same idempotency key
-      const existingResult = this.jobsRepo.getByIdempotencyKey(spec.idempotencyKey);
-      if (!existingResult.ok) {
-        return existingResult;
-      }
-
-      if (existingResult.value) {
-        const existing = existingResult.value;
-        // If not in terminal state, return existing job
-        if (!isTerminalState(existing.state)) {
-          this.logger.info({ jobId: existing.id }, 'Returning existing job (idempotent)');
-          return Ok({ jobId: existing.id });
-        }
-      }
+      return this.createJob(spec);
+    } catch (error) {
+      return Err(
+        `Failed to submit job: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
 
-      // Create new job
-      const jobId = asJobId(generateJobId());
-      const createResult = this.jobsRepo.create({
-        id: jobId,
-        spec,
-        priority: spec.execution.priority,
-        ttlS: spec.execution.ttlS,
-      });
+  /**
+   * Submit several jobs at once. dependsOn may name sibling jobs by idempotency key as well
+   * as existing job IDs. Jobs are created parents first, in one transaction: either every
+   * job is submitted or none is.
+   */
+  async submitGraph(specs: readonly JobSpec[]): Promise<Result<SubmitGraphResponse, string>> {
+    const orderResult = orderJobGraph(specs);
+    if (!orderResult.ok) {
+      return orderResult;
+    }
 
-      if (!createResult.ok) {
-        return createResult;
-      }
+    try {
+      const submitted = this.db.transaction(() => {
+        const jobIds = new Map<string, string>();
+
+        for (const spec of orderResult.value) {
+          const dependsOn = spec.dependsOn?.map((parent) => jobIds.get(parent) ?? parent);
+          const result = this.createJob({ ...spec, ...(dependsOn ? { dependsOn } : {}) });
+          if (!result.ok) {
+            throw new GraphSubmitError(`${spec.idempotencyKey}: ${result.error}`);
+          }
+          jobIds.set(spec.idempotencyKey, result.value.jobId);
+        }
 
-      // Log event
-      const eventResult = this.eventsRepo.create({
-        jobId,
-        type: 'job.submitted',
-        payload: {
+        return specs.map((spec) => ({
           idempotencyKey: spec.idempotencyKey,
-          priority: spec.execution.priority,
-        },
-      });
-
-      if (!eventResult.ok) {
-        this.logger.warn({ jobId, error: eventResult.error }, 'Failed to log event');
-      }
+          jobId: jobIds.get(spec.idempotencyKey) ?? '',
+        }));
+      })();
 
-      this.logger.info({ jobId, priority: spec.execution.priority }, 'Job submitted');
+      this.logger.info({ jobs: submitted.length }, 'Job graph submitted');
 
-      return Ok({ jobId });
+      return Ok({ jobs: submitted });
     } catch (error) {
       return Err(
-        `Failed to submit job: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to submit job graph: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
 
+  private createJob(
+    spec: JobSpec,
+    eventDetails: Record<string, unknown> = {}
+  ): Result<SubmitResponse, string> {
+    if (spec.execution.cron !== undefined) {
+      return Err('Specs with execution.cron create schedules, not jobs');
+    }
+
+    // Check for existing job with same idempotency key
+    const existingResult = this.jobsRepo.getByIdempotencyKey(spec.idempotencyKey);
+    if (!existingResult.ok) {
+      return existingResult;
+    }
+
+    if (existingResult.value) {
+      const existing = existingResult.value;
+      // If not in terminal state, return existing job
+      if (!isTerminalState(existing.state)) {
+        this.logger.info({ jobId: existing.id }, 'Returning existing job (idempotent)');
+        return Ok({ jobId: existing.id });
+      }
+    }
+
+    for (const parentId of spec.dependsOn ?? []) {
+      const parentResult = this.jobsRepo.getById(asJobId(parentId));
+      if (!parentResult.ok) {
+        return Err(`Unknown parent job: ${parentId}`);
+      }
+    }
+
+    // Create new job; a delayed job's TTL starts at notBefore
+    const jobId = asJobId(generateJobId());
+    const delayS = Math.max(0, Math.ceil(((spec.execution.notBefore ?? 0) - Date.now()) / 1000));
+    const createResult = this.jobsRepo.create({
+      id: jobId,
+      spec,
+      priority: spec.execution.priority,
+      ttlS: spec.execution.ttlS + delayS,
+    });
+
+    if (!createResult.ok) {
+      return createResult;
+    }
+
+    // Log event
+    const eventResult = this.eventsRepo.create({
+      jobId,
+      type: 'job.submitted',
+      payload: {
+        idempotencyKey: spec.idempotencyKey,
+        priority: spec.execution.priority,
+        ...(spec.dependsOn?.length ? { dependsOn: spec.dependsOn } : {}),
+        ...(spec.execution.notBefore !== undefined ? { notBefore: spec.execution.notBefore } : {}),
+        ...eventDetails,
+      },
+    });
+
+    if (!eventResult.ok) {
+      this.logger.warn({ jobId, error: eventResult.error }, 'Failed to log event');
+    }
+
+    this.logger.info({ jobId, priority: spec.execution.priority }, 'Job submitted');
+    this.workSignal.notify();
+
+    return Ok({ jobId });
+  }
+
   get(jobId: JobId): Result<GetResponse, string> {
     const result = this.jobsRepo.getById(jobId);
     if (!result.ok) {
@@ -159,12 +285,20 @@ export class JobManager {
 
     const job = result.value;
 
+    const attemptsResult = this.attemptsRepo.listByJob(jobId);
+    if (!attemptsResult.ok) {
+      return attemptsResult;
+    }
+
     return Ok({
       id: job.id,
       state: job.state,
       summary: job.summary,
       lastUpdate: job.finishedAt ?? job.startedAt ?? job.createdAt,
-      attempt: 0, // TODO: track attempts
+      priority: job.priority,
+      effectivePriority: effectivePriority(job, this.config.priorityAgingMs),
+      attempt: attemptsResult.value.length,
+      attempts: attemptsResult.value,
       pr: undefined, // TODO: add PR support
     });
   }
@@ -174,7 +308,12 @@ export class JobManager {
     limit: number = 20,
     offset: number = 0
   ): Result<ListResponse, string> {
-    const filters = state !== undefined ? { state, limit, offset } : { limit, offset };
+    const filters = {
+      ...(state !== undefined ? { state } : {}),
+      limit,
+      offset,
+      priorityAgingMs: this.config.priorityAgingMs,
+    };
     const listResult = this.jobsRepo.list(filters);
     if (!listResult.ok) {
       return listResult;
@@ -182,13 +321,17 @@ export class JobManager {
 
     const jobs = listResult.value;
     const total = this.jobsRepo.count(state);
+    const attemptCounts = this.attemptsRepo.countByJobs(jobs.map((job) => job.id));
 
+    const now = Date.now();
     const items = jobs.map((job) => ({
       id: job.id,
       state: job.state,
       summary: job.summary,
       lastUpdate: job.finishedAt ?? job.startedAt ?? job.createdAt,
-      attempt: 0,
+      priority: job.priority,
+      effectivePriority: effectivePriority(job, this.config.priorityAgingMs, now),
+      attempt: attemptCounts.get(job.id) ?? 0,
       pr: undefined,
     }));
 
@@ -215,12 +358,25 @@ export class JobManager {
       id: jobId,
       state: 'CANCELED',
       summary: 'Canceled by user',
+      expectedState: job.state,
     });
 
     if (!updateResult.ok) {
       return updateResult;
     }
 
+    if (!updateResult.value) {
+      // Lost a race with the worker or sweeper; report whatever state won
+      const currentResult = this.jobsRepo.getById(jobId);
+      if (!currentResult.ok) {
+        return currentResult;
+      }
+      if (isTerminalState(currentResult.value.state)) {
+        return Ok({ ok: false, state: currentResult.value.state });
+      }
+      return this.cancel(jobId);
+    }
+
     // Log event
     const eventResult = this.eventsRepo.create({
       jobId,
@@ -232,7 +388,9 @@ export class JobManager {
       this.logger.warn({ jobId, error: eventResult.error }, 'Failed to log event');
     }
 
-    this.logger.info({ jobId }, 'Job canceled');
+    this.publishStateChange(jobId, 'CANCELED', { previousState: job.state });
+    this.workSignal.stopJob(jobId, 'Job is CANCELED');
+    this.failDependentsOf('CANCELED');
 
     return Ok({ ok: true, state: 'CANCELED' });
   }
@@ -245,6 +403,11 @@ export class JobManager {
 
     const job = result.value;
 
+    const attemptsResult = this.attemptsRepo.listByJob(jobId);
+    if (!attemptsResult.ok) {
+      return attemptsResult;
+    }
+
     const status: JobStatus = {
       state: job.state,
       stateVersion: job.stateVersion,
@@ -255,13 +418,145 @@ export class JobManager {
         job.startedAt && job.finishedAt
           ? job.finishedAt - job.startedAt
           : undefined,
-      attempt: 0,
+      attempt: attemptsResult.value.length,
+      attempts: attemptsResult.value,
       reasonCode: job.reasonCode ?? undefined,
     };
 
     return Ok(status);
   }
 
+  getSpec(jobId: JobId): Result<JobSpec, string> {
+    const result = this.jobsRepo.getById(jobId);
+    return result.ok ? Ok(result.value.spec) : result;
+  }
+
+  /**
+   * Register a recurring job from a spec with execution.cron
+   * Idempotent by the spec's idempotencyKey, which names the schedule.
+   */
+  createSchedule(spec: JobSpec): Result<ScheduleSubmitResponse, string> {
+    const cron = spec.execution.cron;
+    if (cron === undefined) {
+      return Err('Schedules require execution.cron');
+    }
+
+    const cronResult = parseCron(cron);
+    if (!cronResult.ok) {
+      return cronResult;
+    }
+
+    const existingResult = this.schedulesRepo.getByName(spec.idempotencyKey);
+    if (!existingResult.ok) {
+      return existingResult;
+    }
+    if (existingResult.value) {
+      this.logger.info({ scheduleId: existingResult.value.id }, 'Returning existing schedule (idempotent)');
+      return Ok({ scheduleId: existingResult.value.id, nextRunAt: existingResult.value.nextRunAt });
+    }
+
+    const createResult = this.schedulesRepo.create({
+      id: generateScheduleId(),
+      spec,
+      cron,
+      nextRunAt: nextCronTime(cronResult.value, Math.max(Date.now(), spec.execution.notBefore ?? 0)),
+    });
+    if (!createResult.ok) {
+      return createResult;
+    }
+
+    const schedule = createResult.value;
+    this.logger.info({ scheduleId: schedule.id, cron, nextRunAt: schedule.nextRunAt }, 'Schedule created');
+
+    return Ok({ scheduleId: schedule.id, nextRunAt: schedule.nextRunAt });
+  }
+
+  listSchedules(
+    limit: number = 20,
+    offset: number = 0
+  ): Result<{ items: ScheduleRecord[]; total: number; hasMore: boolean }, string> {
+    const listResult = this.schedulesRepo.list({ limit, offset });
+    if (!listResult.ok) {
+      return listResult;
+    }
+
+    const total = this.schedulesRepo.count();
+    return Ok({ items: listResult.value, total, hasMore: offset + limit < total });
+  }
+
+  /**
+   * Registered workers, most recently seen first, with their liveness status
+   */
+  listWorkers(
+    includeStopped: boolean = false,
+    limit: number = 20,
+    offset: number = 0
+  ): Result<WorkersListResponse, string> {
+    const listResult = this.workersRepo.list({ includeStopped, limit, offset });
+    if (!listResult.ok) {
+      return listResult;
+    }
+
+    const now = Date.now();
+    const items = listResult.value.map((worker) => ({
+      ...worker,
+      status: workerStatus(worker.state, worker.heartbeatAt, now, this.config.workerStaleMs),
+    }));
+
+    const total = this.workersRepo.count(includeStopped);
+    return Ok({ items, total, hasMore: offset + limit < total });
+  }
+
+  /**
+   * Forget workers that stopped or vanished more than a day ago
+   */
+  pruneWorkers(now: number = Date.now()): Result<number, string> {
+    const result = this.workersRepo.prune(now - WORKER_RETENTION_MS);
+    if (result.ok && result.value > 0) {
+      this.logger.info({ count: result.value }, 'Pruned inactive workers');
+    }
+    return result;
+  }
+
+  /**
+   * Pause or resume a schedule; ticks missed while paused are skipped
+   */
+  pauseSchedule(scheduleId: string, paused: boolean): Result<ScheduleRecord, string> {
+    const scheduleResult = this.schedulesRepo.getById(scheduleId);
+    if (!scheduleResult.ok) {
+      return scheduleResult;
+    }
+
+    const cronResult = parseCron(scheduleResult.value.cron);
+    if (!cronResult.ok) {
+      return cronResult;
+    }
+
+    const updateResult = this.schedulesRepo.setPaused(
+      scheduleId,
+      paused,
+      nextCronTime(cronResult.value, Date.now())
+    );
+    if (!updateResult.ok) {
+      return updateResult;
+    }
+
+    this.logger.info({ scheduleId, paused }, paused ? 'Schedule paused' : 'Schedule resumed');
+
+    return this.schedulesRepo.getById(scheduleId);
+  }
+
+  /**
+   * Delete a schedule; jobs it already created are kept
+   */
+  deleteSchedule(scheduleId: string): Result<boolean, string> {
+    const deleteResult = this.schedulesRepo.delete(scheduleId);
+    if (deleteResult.ok && deleteResult.value) {
+      this.logger.info({ scheduleId }, 'Schedule deleted');
+    }
+    return deleteResult;
+  }
+
   createAsk(payload: AskPayload): Result<AskRecord, string> {
     const parsed = AskPayloadSchema.safeParse(payload);
     if (!parsed.success) {
@@ -492,28 +787,388 @@ export class JobManager {
     return Ok(history);
   }
 
-  getDecisionCache(decisionKey: string): Result<DecisionCacheRecord | null, string> {
-    return this.decisionCacheRepo.get(decisionKey);
+  /**
+   * Look up an unexpired cached decision; with an Ask, the hit or miss is logged on its job
+   */
+  getDecisionCache(decisionKey: string, ask?: AskRecord): Result<DecisionCacheRecord | null, string> {
+    const result = this.decisionCacheRepo.get(decisionKey);
+    if (!result.ok) {
+      return result;
+    }
+
+    if (result.value) {
+      this.decisionCacheCounters.hits++;
+      const touchResult = this.decisionCacheRepo.touch(decisionKey);
+      if (!touchResult.ok) {
+        this.logger.warn({ decisionKey, error: touchResult.error }, 'Failed to record decision cache hit');
+      }
+    } else {
+      this.decisionCacheCounters.misses++;
+    }
+
+    if (!ask) {
+      return result;
+    }
+
+    const eventResult = this.eventsRepo.create({
+      jobId: asJobId(ask.jobId),
+      type: result.value ? 'decision_cache.hit' : 'decision_cache.miss',
+      payload: {
+        askId: ask.askId,
+        stepId: ask.stepId,
+        decisionKey,
+      },
+    });
+
+    if (!eventResult.ok) {
+      this.logger.warn({ jobId: ask.jobId, error: eventResult.error }, 'Failed to log decision cache event');
+    }
+
+    return result;
   }
 
+  /**
+   * Store a decision, then evict least recently used entries beyond the size cap
+   */
   putDecisionCache(
     params: {
       decisionKey: string;
       answerJson?: unknown;
       answerText?: string;
       policyTrace?: unknown;
+      attestation?: Attestation;
       ttlSeconds: number;
     }
   ): Result<DecisionCacheRecord, string> {
-    return this.decisionCacheRepo.upsert(params);
+    const result = this.decisionCacheRepo.upsert(params);
+    if (!result.ok || this.config.decisionCacheMaxEntries <= 0) {
+      return result;
+    }
+
+    const evictResult = this.decisionCacheRepo.evictOverflow(this.config.decisionCacheMaxEntries);
+    if (!evictResult.ok) {
+      this.logger.warn({ error: evictResult.error }, 'Failed to evict decision cache entries');
+    } else {
+      this.decisionCacheCounters.evicted += evictResult.value;
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete cached decisions past their TTL
+   */
+  purgeExpiredDecisions(now: number = Date.now()): Result<number, string> {
+    const result = this.decisionCacheRepo.purgeExpired(now);
+    if (result.ok && result.value > 0) {
+      this.decisionCacheCounters.purged += result.value;
+      this.logger.debug({ count: result.value }, 'Purged expired decision cache entries');
+    }
+    return result;
   }
 
+  /**
+   * Delete cached decisions by role, policy version and/or key prefix
+   */
+  invalidateDecisionCache(
+    filter: DecisionCacheInvalidateRequest
+  ): Result<DecisionCacheInvalidateResponse, string> {
+    const parsed = DecisionCacheInvalidateRequestSchema.safeParse(filter);
+    if (!parsed.success) {
+      return Err(`Invalid invalidation filter: ${parsed.error.issues.map((issue) => issue.message).join('; ')}`);
+    }
+
+    const result = this.decisionCacheRepo.invalidate(parsed.data);
+    if (!result.ok) {
+      return result;
+    }
+
+    this.decisionCacheCounters.invalidated += result.value;
+    this.logger.info({ filter: parsed.data, removed: result.value }, 'Decision cache invalidated');
+    return Ok({ removed: result.value });
+  }
+
+  getDecisionCacheStats(now: number = Date.now()): Result<DecisionCacheStats, string> {
+    try {
+      return Ok({
+        ...this.decisionCacheRepo.summary(now),
+        maxEntries: this.config.decisionCacheMaxEntries,
+        ...this.decisionCacheCounters,
+      });
+    } catch (error) {
+      return Err(`Failed to read decision cache stats: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Recover jobs whose worker stopped renewing its lease
+   * Each job goes STALE, then back to QUEUED while attempts remain, otherwise FAILED.
+   * @param options.maxAttempts - Attempt budget for jobs without a retry policy
+   */
+  reapStaleLeases(options: { maxAttempts: number; now?: number }): Result<number, string> {
+    const now = options.now ?? Date.now();
+    const expiredResult = this.jobsRepo.listExpiredLeases(now);
+    if (!expiredResult.ok) {
+      return expiredResult;
+    }
+
+    let reaped = 0;
+    for (const job of expiredResult.value) {
+      const jobId = asJobId(job.id);
+
+      const staleResult = this.jobsRepo.markStale(jobId, now);
+      if (!staleResult.ok) {
+        return staleResult;
+      }
+      if (!staleResult.value) {
+        // Lease renewed or job finished since the scan
+        continue;
+      }
+
+      reaped++;
+      this.publishStateChange(jobId, 'STALE', {
+        leaseOwner: job.leaseOwner,
+        leaseExpiresAt: job.leaseExpiresAt,
+      });
+
+      const finishResult = this.attemptsRepo.finishOpen(
+        jobId,
+        'STALE',
+        `Lease held by ${job.leaseOwner ?? 'unknown'} expired`
+      );
+      if (!finishResult.ok) {
+        this.logger.warn({ jobId, error: finishResult.error }, 'Failed to close stale attempt');
+      }
+
+      const attempts = this.attemptsRepo.countByJob(jobId);
+      const retryPolicy = job.spec.execution.retry;
+      const maxAttempts = retryPolicy?.maxAttempts ?? options.maxAttempts;
+
+      if (attempts < maxAttempts) {
+        const notBefore = retryPolicy ? now + computeBackoffMs(retryPolicy, attempts) : now;
+        const requeueResult = this.jobsRepo.requeue({
+          id: jobId,
+          notBefore,
+          summary: `Lease expired on attempt ${attempts}/${maxAttempts}, requeued`,
+        });
+        if (!requeueResult.ok) {
+          return requeueResult;
+        }
+        if (requeueResult.value) {
+          this.publishStateChange(jobId, 'QUEUED', { attempt: attempts, maxAttempts, notBefore });
+        }
+        continue;
+      }
+
+      const failResult = this.updateState(jobId, 'FAILED', {
+        reasonCode: 'INTERNAL_ERROR',
+        summary: `Lease expired on attempt ${attempts}/${maxAttempts}, no attempts left`,
+        expectedState: 'STALE',
+      });
+      if (!failResult.ok) {
+        return failResult;
+      }
+    }
+
+    if (reaped > 0) {
+      this.logger.warn({ reaped }, 'Recovered jobs with expired leases');
+      // Requeued jobs, and groups the stale jobs were holding a slot in
+      this.workSignal.notify();
+    }
+
+    return Ok(reaped);
+  }
+
+  /**
+   * Expire unfinished jobs whose TTL has elapsed
+   */
+  expireOverdueJobs(now: number = Date.now()): Result<number, string> {
+    const overdueResult = this.jobsRepo.listOverdue(now);
+    if (!overdueResult.ok) {
+      return overdueResult;
+    }
+
+    let expired = 0;
+    for (const job of overdueResult.value) {
+      if (!canTransition(job.state, 'EXPIRED')) {
+        continue;
+      }
+
+      const updateResult = this.updateState(asJobId(job.id), 'EXPIRED', {
+        summary: `Expired in ${job.state} after ttl of ${job.ttlS}s`,
+        expectedState: job.state,
+      });
+      if (!updateResult.ok) {
+        return updateResult;
+      }
+      if (updateResult.value) {
+        expired++;
+        this.workSignal.stopJob(job.id, 'Job is EXPIRED');
+      }
+    }
+
+    if (expired > 0) {
+      this.logger.info({ expired }, 'Expired overdue jobs');
+    }
+
+    return Ok(expired);
+  }
+
+  /**
+   * Create the job for every due schedule tick
+   * The job's idempotency key is `<schedule name>@<tick ISO time>`, and advancing the schedule is
+   * a compare-and-set in the same transaction, so concurrent schedulers create each tick once.
+   * Ticks missed while the server was down collapse into a single run.
+   */
+  materializeDueSchedules(now: number = Date.now()): Result<number, string> {
+    const dueResult = this.schedulesRepo.listDue(now);
+    if (!dueResult.ok) {
+      return dueResult;
+    }
+
+    let created = 0;
+    for (const schedule of dueResult.value) {
+      const tick = schedule.nextRunAt;
+      const cronResult = parseCron(schedule.cron);
+      if (tick === null || !cronResult.ok) {
+        continue;
+      }
+
+      const execution = { ...schedule.spec.execution };
+      delete execution.cron;
+      delete execution.notBefore;
+      const spec: JobSpec = {
+        ...schedule.spec,
+        idempotencyKey: `${schedule.name}@${new Date(tick).toISOString()}`,
+        execution,
+      };
+
+      try {
+        const jobId = this.db.transaction(() => {
+          const existing = this.jobsRepo.getByIdempotencyKey(spec.idempotencyKey);
+          const jobResult =
+            existing.ok && existing.value
+              ? Ok({ jobId: existing.value.id })
+              : this.createJob(spec, { scheduleId: schedule.id, scheduledFor: tick });
+          if (!jobResult.ok) {
+            throw new Error(jobResult.error);
+          }
+
+          const advanced = this.schedulesRepo.advance({
+            id: schedule.id,
+            expectedNextRunAt: tick,
+            nextRunAt: nextCronTime(cronResult.value, Math.max(now, tick)),
+            lastJobId: jobResult.value.jobId,
+          });
+          if (!advanced.ok) {
+            throw new Error(advanced.error);
+          }
+          if (!advanced.value) {
+            // Another scheduler took this tick; roll back
+            throw new ScheduleTickTakenError();
+          }
+
+          return jobResult.value.jobId;
+        })();
+
+        created++;
+        this.logger.info({ scheduleId: schedule.id, jobId, tick }, 'Scheduled job created');
+      } catch (error) {
+        if (error instanceof ScheduleTickTakenError) {
+          continue;
+        }
+        this.logger.error({ scheduleId: schedule.id, error }, 'Failed to create scheduled job');
+      }
+    }
+
+    return Ok(created);
+  }
+
+  /**
+   * Fail queued jobs whose parent ended FAILED, CANCELED or EXPIRED, cascading to their own
+   * dependents in the same call
+   */
+  failBlockedJobs(): Result<number, string> {
+    let failed = 0;
+
+    // The FAILED transitions below cascade here rather than through failDependentsOf
+    this.failingBlockedJobs = true;
+    try {
+      for (;;) {
+        const blockedResult = this.jobsRepo.listBlockedByFailedParents();
+        if (!blockedResult.ok) {
+          return blockedResult;
+        }
+
+        let failedThisPass = 0;
+        for (const job of blockedResult.value) {
+          const parent = (job.spec.dependsOn ?? [])
+            .map((parentId) => this.jobsRepo.getById(asJobId(parentId)))
+            .flatMap((result) => (result.ok ? [result.value] : []))
+            .find((candidate) => isTerminalState(candidate.state) && candidate.state !== 'SUCCEEDED');
+          if (!parent || !canTransition(job.state, 'FAILED')) {
+            continue;
+          }
+
+          const updateResult = this.updateState(asJobId(job.id), 'FAILED', {
+            reasonCode: 'DEPENDENCY_FAILED',
+            summary: `Parent job ${parent.id} ended ${parent.state}`,
+            expectedState: 'QUEUED',
+          });
+          if (!updateResult.ok) {
+            return updateResult;
+          }
+          if (updateResult.value) {
+            this.eventsRepo.create({
+              jobId: asJobId(job.id),
+              type: 'job.dependency_failed',
+              payload: { parentId: parent.id, parentState: parent.state, timestamp: Date.now() },
+            });
+            failedThisPass++;
+          }
+        }
+
+        failed += failedThisPass;
+        if (failedThisPass === 0) {
+          break;
+        }
+      }
+    } finally {
+      this.failingBlockedJobs = false;
+    }
+
+    if (failed > 0) {
+      this.logger.info({ failed }, 'Failed jobs with unsuccessful parents');
+    }
+
+    return Ok(failed);
+  }
+
+  /**
+   * Fail the queued dependents of a job that just ended in `state` without succeeding,
+   * instead of leaving them for the next sweep
+   */
+  private failDependentsOf(state: JobState): void {
+    if (!isTerminalState(state) || state === 'SUCCEEDED' || this.failingBlockedJobs) {
+      return;
+    }
+
+    const result = this.failBlockedJobs();
+    if (!result.ok) {
+      this.logger.warn({ error: result.error }, 'Failed to fail jobs with unsuccessful parents');
+    }
+  }
+
+  /**
+   * Move a job to a new state and publish the change
+   * Returns false when the job is already terminal or no longer in options.expectedState.
+   */
   updateState(
     jobId: JobId,
     state: JobState,
-    options?: { reasonCode?: FailReason; summary?: string }
-  ): Result<void, string> {
-    const params: { id: JobId; state: JobState; reasonCode?: FailReason; summary?: string } = {
+    options?: { reasonCode?: FailReason; summary?: string; expectedState?: JobState }
+  ): Result<boolean, string> {
+    const params: UpdateJobStateParams = {
       id: jobId,
       state,
     };
@@ -523,19 +1178,40 @@ export class JobManager {
     if (options?.summary !== undefined) {
       params.summary = options.summary;
     }
+    if (options?.expectedState !== undefined) {
+      params.expectedState = options.expectedState;
+    }
     const updateResult = this.jobsRepo.updateState(params);
 
     if (!updateResult.ok) {
       return updateResult;
     }
 
-    // Log event
+    if (!updateResult.value) {
+      this.logger.warn({ jobId, state, expectedState: options?.expectedState }, 'Job state update skipped');
+      return Ok(false);
+    }
+
+    this.publishStateChange(jobId, state, { reasonCode: options?.reasonCode });
+    this.failDependentsOf(state);
+
+    return Ok(true);
+  }
+
+  /**
+   * Write the job.state.* audit event and notify bus listeners
+   */
+  private publishStateChange(
+    jobId: JobId,
+    state: JobState,
+    details: Record<string, unknown> = {}
+  ): void {
     const eventResult = this.eventsRepo.create({
       jobId,
       type: `job.state.${state.toLowerCase()}`,
       payload: {
         state,
-        reasonCode: options?.reasonCode,
+        ...details,
         timestamp: Date.now(),
       },
     });
@@ -544,7 +1220,7 @@ export class JobManager {
       this.logger.warn({ jobId, error: eventResult.error }, 'Failed to log event');
     }
 
-    this.logger.info({ jobId, state, reasonCode: options?.reasonCode }, 'Job state updated');
+    this.logger.info({ jobId, state, ...details }, 'Job state updated');
 
     const jobResult = this.jobsRepo.getById(jobId);
     if (jobResult.ok) {
@@ -557,7 +1233,5 @@ export class JobManager {
     } else {
       this.logger.warn({ jobId, error: jobResult.error }, 'Failed to fetch job after state update');
     }
-
-    return Ok(undefined);
   }
 }
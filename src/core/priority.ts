@@ -0,0 +1,36 @@
+/**
+ * Priority aging
+ * A queued job gains one priority level per aging interval, so P2 work is not starved by
+ * a steady stream of P0/P1 jobs. The lease query applies the same rule in SQL.
+ */
+
+import type { JobRecord, Priority } from '../models/index.js';
+import { priorityToNumber } from '../models/index.js';
+
+const LEVELS: readonly Priority[] = ['P0', 'P1', 'P2'];
+
+/**
+ * Priority after waiting waitedMs; agingMs of 0 disables aging
+ */
+export function agedPriority(priority: Priority, waitedMs: number, agingMs: number): Priority {
+  if (agingMs <= 0 || waitedMs <= 0) {
+    return priority;
+  }
+
+  const level = Math.max(0, priorityToNumber(priority) - Math.floor(waitedMs / agingMs));
+  return LEVELS[level] ?? priority;
+}
+
+/**
+ * Effective priority of a job: for queued jobs as of now, otherwise as of when it was
+ * last leased (or finished without running). Waiting counts from notBefore when set.
+ */
+export function effectivePriority(
+  job: Pick<JobRecord, 'state' | 'priority' | 'createdAt' | 'notBefore' | 'startedAt' | 'finishedAt'>,
+  agingMs: number,
+  now: number = Date.now()
+): Priority {
+  const queuedSince = Math.max(job.createdAt, job.notBefore ?? 0);
+  const at = job.state === 'QUEUED' ? now : job.startedAt ?? job.finishedAt ?? now;
+  return agedPriority(job.priority, at - queuedSince, agingMs);
+}
@@ -0,0 +1,30 @@
+/**
+ * Retry policy helpers
+ */
+
+import type { FailReason, RetryPolicy } from '../models/index.js';
+
+/**
+ * Delay before the next attempt, doubling per attempt and capped at backoffMaxMs
+ * @param attemptNo - 1-based number of the attempt that just failed
+ */
+export function computeBackoffMs(policy: RetryPolicy, attemptNo: number): number {
+  const exponent = Math.max(0, attemptNo - 1);
+  return Math.min(policy.backoffMaxMs, policy.backoffBaseMs * 2 ** exponent);
+}
+
+/**
+ * Whether a failure should send the job back to the queue
+ * Jobs without a retry policy get a single attempt.
+ */
+export function shouldRetry(
+  policy: RetryPolicy | undefined,
+  reasonCode: FailReason,
+  attemptsSoFar: number
+): policy is RetryPolicy {
+  if (!policy) {
+    return false;
+  }
+  const retryOn: readonly FailReason[] = policy.retryOn;
+  return retryOn.includes(reasonCode) && attemptsSoFar < policy.maxAttempts;
+}
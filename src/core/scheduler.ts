@@ -0,0 +1,52 @@
+/**
+ * Job scheduler - Materializes jobs from cron schedules
+ * Runs on server.schedulerIntervalMs; each due schedule tick becomes one queued job.
+ */
+
+import type { Logger } from 'pino';
+import type { JobManager } from './job-manager.js';
+
+export interface JobSchedulerConfig {
+  intervalMs: number;
+}
+
+export class JobScheduler {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly jobManager: JobManager,
+    private readonly config: JobSchedulerConfig,
+    private readonly logger: Logger
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.config.intervalMs);
+    this.timer.unref();
+    this.logger.info({ intervalMs: this.config.intervalMs }, 'Job scheduler started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Materialize due schedules immediately
+   */
+  tick(): void {
+    try {
+      const result = this.jobManager.materializeDueSchedules();
+      if (!result.ok) {
+        this.logger.error({ error: result.error }, 'Failed to materialize schedules');
+      }
+    } catch (error) {
+      this.logger.error({ error }, 'Schedule tick failed');
+    }
+  }
+}
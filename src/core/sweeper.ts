@@ -0,0 +1,78 @@
+/**
+ * Job sweeper - Periodic maintenance of the job table
+ * Runs on server.jobTimeoutCheckIntervalMs: recovers jobs with expired leases,
+ * expires jobs whose TTL has elapsed, then fails jobs whose parents did not succeed.
+ * Also prunes long-gone workers from the registry and expired decision cache entries.
+ */
+
+import type { Logger } from 'pino';
+import type { JobManager } from './job-manager.js';
+
+export interface JobSweeperConfig {
+  intervalMs: number;
+  /** Attempt budget for stale jobs that have no retry policy */
+  staleMaxAttempts: number;
+}
+
+export class JobSweeper {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly jobManager: JobManager,
+    private readonly config: JobSweeperConfig,
+    private readonly logger: Logger
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.sweep(), this.config.intervalMs);
+    this.timer.unref();
+    this.logger.info({ intervalMs: this.config.intervalMs }, 'Job sweeper started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one sweep immediately
+   */
+  sweep(): void {
+    try {
+      const staleResult = this.jobManager.reapStaleLeases({
+        maxAttempts: this.config.staleMaxAttempts,
+      });
+      if (!staleResult.ok) {
+        this.logger.error({ error: staleResult.error }, 'Failed to reap stale leases');
+      }
+
+      const expiredResult = this.jobManager.expireOverdueJobs();
+      if (!expiredResult.ok) {
+        this.logger.error({ error: expiredResult.error }, 'Failed to expire overdue jobs');
+      }
+
+      const blockedResult = this.jobManager.failBlockedJobs();
+      if (!blockedResult.ok) {
+        this.logger.error({ error: blockedResult.error }, 'Failed to fail jobs with unsuccessful parents');
+      }
+
+      const pruneResult = this.jobManager.pruneWorkers();
+      if (!pruneResult.ok) {
+        this.logger.error({ error: pruneResult.error }, 'Failed to prune workers');
+      }
+
+      const purgeResult = this.jobManager.purgeExpiredDecisions();
+      if (!purgeResult.ok) {
+        this.logger.error({ error: purgeResult.error }, 'Failed to purge expired decisions');
+      }
+    } catch (error) {
+      this.logger.error({ error }, 'Job sweep failed');
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Work signal - Wakes idle workers as soon as a job may have become leasable
+ * The JobManager notifies on submissions and requeues; workers notify when an attempt ends,
+ * since that can unblock dependents or free a concurrency slot. Workers still poll as a
+ * fallback for delayed jobs and for changes made by other processes.
+ * It also stops running attempts at once when their job is canceled or expired; the lease
+ * heartbeat remains the fallback for jobs changed by other processes. The JobManager listens
+ * for ended attempts to fail the dependents of jobs that did not succeed.
+ */
+
+export class WorkSignal {
+  private waiters = new Set<() => void>();
+
+  private readonly attempts = new Map<string, Set<(reason: string) => void>>();
+
+  private readonly attemptEndListeners = new Set<(jobId: string) => void>();
+
+  /**
+   * Wake every waiting worker; they race for the lease and the losers wait again
+   */
+  notify(): void {
+    const waiters = this.waiters;
+    this.waiters = new Set();
+    for (const wake of waiters) {
+      wake();
+    }
+  }
+
+  /**
+   * Resolves true when notified, or false once timeoutMs passes
+   */
+  wait(timeoutMs: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const wake = (): void => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.waiters.delete(wake);
+        resolve(false);
+      }, timeoutMs);
+      this.waiters.add(wake);
+    });
+  }
+
+  /**
+   * Call onStop when the job's attempt should stop; returns the function that unregisters it
+   */
+  watchJob(jobId: string, onStop: (reason: string) => void): () => void {
+    const listeners = this.attempts.get(jobId) ?? new Set();
+    listeners.add(onStop);
+    this.attempts.set(jobId, listeners);
+
+    return () => {
+      listeners.delete(onStop);
+      if (listeners.size === 0 && this.attempts.get(jobId) === listeners) {
+        this.attempts.delete(jobId);
+      }
+    };
+  }
+
+  /**
+   * Call listener after each attempt run in this process ends; returns the function that unregisters it
+   */
+  onAttemptEnded(listener: (jobId: string) => void): () => void {
+    this.attemptEndListeners.add(listener);
+    return () => {
+      this.attemptEndListeners.delete(listener);
+    };
+  }
+
+  attemptEnded(jobId: string): void {
+    for (const listener of this.attemptEndListeners) {
+      listener(jobId);
+    }
+  }
+
+  /**
+   * Stop whatever attempt of the job is running in this process
+   */
+  stopJob(jobId: string, reason: string): void {
+    for (const onStop of this.attempts.get(jobId) ?? []) {
+      onStop(reason);
+    }
+  }
+}
@@ -4,12 +4,42 @@
 
 import type { Database } from 'better-sqlite3';
 import type { Logger } from 'pino';
-import { JobsRepository, ArtifactsRepository, EventsRepository } from '../db/index.js';
+import {
+  JobsRepository,
+  ArtifactsRepository,
+  EventsRepository,
+  AttemptsRepository,
+  WorkersRepository,
+} from '../db/index.js';
 import { ArtifactsService } from '../services/artifacts.js';
-import type { Executor } from '../executors/index.js';
-import { asLeaseOwner, type JobId } from '../models/index.js';
+import type { RepoCache } from '../services/repo-cache.js';
+import {
+  resolveExecutorChain,
+  resolveModel,
+  selectExecutor,
+  shouldFallback,
+  type Executor,
+  type ExecutorError,
+  type ExecutorOutput,
+  type ExecutorRoute,
+} from '../executors/index.js';
+import {
+  asJobId,
+  asLeaseOwner,
+  canTransition,
+  isTerminalState,
+  Ok,
+  Err,
+  type ArtifactKind,
+  type FailReason,
+  type JobId,
+  type JobRecord,
+  type Result,
+} from '../models/index.js';
+import { computeBackoffMs, shouldRetry } from './retry.js';
+import { WorkSignal } from './work-signal.js';
 import { execa } from 'execa';
-import { tmpdir } from 'os';
+import { hostname, tmpdir } from 'os';
 import { join } from 'path';
 import { mkdir, writeFile, rm } from 'fs/promises';
 import { randomBytes } from 'crypto';
@@ -17,43 +47,114 @@ import { randomBytes } from 'crypto';
 export interface WorkerConfig {
   leaseTtlMs: number;
   heartbeatIntervalMs: number;
+  /** Fallback poll interval after a wakeup; doubles while the queue stays empty */
   pollIntervalMs: number;
+  /** Cap for the fallback poll interval */
+  maxPollIntervalMs: number;
+  /** Leased jobs allowed per concurrency key, unless the job sets execution.concurrencyLimit */
+  concurrencyLimit: number;
+  /** Queued time that raises a job by one priority level; 0 disables aging */
+  priorityAgingMs: number;
+  /** Executor names tried, in order, after the routed executor fails */
+  executorFallback: readonly string[];
+  /** Ask/Answer HTTP origin handed to executors for the Ask SDK */
+  askAnswerOrigin?: string;
+}
+
+/** Abort reason for attempts cut short by drain(); such jobs are requeued */
+const DRAIN_REASON = 'Worker draining';
+
+/**
+ * How a single attempt ended, recorded on the attempt row
+ */
+interface AttemptOutcome {
+  resultCode: string;
+  reason: string;
 }
 
 export class Worker {
   private readonly jobsRepo: JobsRepository;
   private readonly artifactsRepo: ArtifactsRepository;
   private readonly eventsRepo: EventsRepository;
+  private readonly attemptsRepo: AttemptsRepository;
+  private readonly workersRepo: WorkersRepository;
   private readonly workerId: string;
   private running: boolean = false;
   private heartbeatTimer: NodeJS.Timeout | null = null;
+  /** Registry heartbeat, kept up while idle as well as during attempts */
+  private livenessTimer: NodeJS.Timeout | null = null;
+  /** The processNext() call in progress and its attempt's abort controller, for drain() */
+  private inFlight: Promise<void> | null = null;
+  private attemptAbort: AbortController | null = null;
 
   constructor(
     db: Database,
     private readonly artifacts: ArtifactsService,
-    private readonly executor: Executor,
+    private readonly repoCache: RepoCache,
+    private readonly executors: readonly ExecutorRoute[],
     private readonly config: WorkerConfig,
-    private readonly logger: Logger
+    private readonly logger: Logger,
+    private readonly workSignal: WorkSignal = new WorkSignal()
   ) {
     this.jobsRepo = new JobsRepository(db);
     this.artifactsRepo = new ArtifactsRepository(db);
     this.eventsRepo = new EventsRepository(db);
+    this.attemptsRepo = new AttemptsRepository(db);
+    this.workersRepo = new WorkersRepository(db);
     this.workerId = `worker-${randomBytes(4).toString('hex')}`;
   }
 
   async start(): Promise<void> {
     this.running = true;
+
+    const registerResult = this.workersRepo.register({
+      id: this.workerId,
+      host: hostname(),
+      pid: process.pid,
+      executors: this.executors.map((route) => route.executor.name),
+    });
+    if (!registerResult.ok) {
+      this.logger.warn({ workerId: this.workerId, error: registerResult.error }, 'Failed to register worker');
+    }
+
+    this.livenessTimer = setInterval(() => {
+      const result = this.workersRepo.heartbeat(this.workerId);
+      if (!result.ok) {
+        this.logger.warn({ workerId: this.workerId, error: result.error }, 'Failed to record worker heartbeat');
+      }
+    }, this.config.heartbeatIntervalMs);
+    this.livenessTimer.unref();
+
     this.logger.info({ workerId: this.workerId }, 'Worker started');
 
+    let pollIntervalMs = this.config.pollIntervalMs;
+
     while (this.running) {
+      let leased = false;
       try {
-        await this.processNext();
+        const next = this.processNext();
+        this.inFlight = next.then(
+          () => undefined,
+          () => undefined
+        );
+        leased = await next;
       } catch (error) {
         this.logger.error({ error }, 'Worker error');
+      } finally {
+        this.inFlight = null;
       }
 
-      // Wait before polling again
-      await this.sleep(this.config.pollIntervalMs);
+      if (leased || !this.running) {
+        // More work may be queued behind the job just run
+        pollIntervalMs = this.config.pollIntervalMs;
+        continue;
+      }
+
+      // Idle: sleep until woken, a delayed job comes due, or the fallback poll
+      const woken = await this.workSignal.wait(this.idleWaitMs(pollIntervalMs));
+      pollIntervalMs = woken
+        ? this.config.pollIntervalMs
+        : Math.min(pollIntervalMs * 2, this.config.maxPollIntervalMs);
     }
   }
 
@@ -63,169 +164,529 @@ export class Worker {
       clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
+    if (this.livenessTimer) {
+      clearInterval(this.livenessTimer);
+      this.livenessTimer = null;
+    }
+    this.workersRepo.setState(this.workerId, 'STOPPED');
+    // Ends an idle wait; other idle workers just poll once more
+    this.workSignal.notify();
     this.logger.info({ workerId: this.workerId }, 'Worker stopped');
   }
 
-  private async processNext(): Promise<void> {
+  /**
+   * Stop leasing new jobs and give the in-flight attempt up to graceMs to finish.
+   * An attempt still running after that is aborted and its job requeued.
+   */
+  async drain(graceMs: number): Promise<void> {
+    this.running = false;
+    this.workersRepo.setState(this.workerId, 'DRAINING');
+
+    const inFlight = this.inFlight;
+    if (inFlight) {
+      let timer: NodeJS.Timeout | undefined;
+      const finished = await Promise.race([
+        inFlight.then(
+          () => true,
+          () => true
+        ),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(false), graceMs);
+        }),
+      ]);
+      clearTimeout(timer);
+
+      if (!finished) {
+        this.logger.warn({ workerId: this.workerId, graceMs }, 'Drain grace period over, aborting attempt');
+        this.attemptAbort?.abort(DRAIN_REASON);
+        await inFlight.catch(() => undefined);
+      }
+    }
+
+    this.stop();
+  }
+
+  /**
+   * Fallback wait while idle, cut short when a delayed job becomes leasable sooner
+   */
+  private idleWaitMs(pollIntervalMs: number): number {
+    const nextNotBefore = this.jobsRepo.nextNotBefore();
+    if (nextNotBefore === null) {
+      return pollIntervalMs;
+    }
+    return Math.max(0, Math.min(pollIntervalMs, nextNotBefore - Date.now()));
+  }
+
+  /**
+   * Lease and run one job; false when nothing was leasable
+   */
+  private async processNext(): Promise<boolean> {
     // Try to acquire a job
     const leaseResult = this.jobsRepo.acquireLease({
       owner: asLeaseOwner(this.workerId),
       leaseTtlMs: this.config.leaseTtlMs,
+      concurrencyLimit: this.config.concurrencyLimit,
+      priorityAgingMs: this.config.priorityAgingMs,
     });
 
     if (!leaseResult.ok) {
       this.logger.error({ error: leaseResult.error }, 'Failed to acquire lease');
-      return;
+      return false;
     }
 
     const jobId = leaseResult.value;
     if (!jobId) {
       // No jobs available
-      return;
+      return false;
     }
 
-    this.logger.info({ jobId, workerId: this.workerId }, 'Processing job');
+    const attemptResult = this.attemptsRepo.start({
+      jobId,
+      leaseOwner: asLeaseOwner(this.workerId),
+    });
+    if (!attemptResult.ok) {
+      this.logger.warn({ jobId, error: attemptResult.error }, 'Failed to record attempt');
+    }
+    this.workersRepo.startAttempt(this.workerId, jobId);
 
-    // Start heartbeat
-    this.startHeartbeat(jobId);
+    this.logger.info(
+      {
+        jobId,
+        workerId: this.workerId,
+        attempt: attemptResult.ok ? attemptResult.value.attemptNo : undefined,
+      },
+      'Processing job'
+    );
+
+    // Cancel and expiry in this process abort the attempt at once; the heartbeat catches the
+    // rest, such as a lost lease or a job canceled by another process
+    const abortController = new AbortController();
+    this.attemptAbort = abortController;
+    const unwatch = this.workSignal.watchJob(jobId, (reason) => abortController.abort(reason));
+    this.startHeartbeat(jobId, abortController);
 
+    let outcome: AttemptOutcome = { resultCode: 'INTERNAL_ERROR', reason: 'Attempt aborted' };
     try {
-      await this.executeJob(jobId);
+      outcome = await this.executeJob(jobId, abortController.signal);
     } finally {
       this.stopHeartbeat();
+      unwatch();
+      this.attemptAbort = null;
+      this.workersRepo.finishAttempt(this.workerId, outcome.resultCode === 'SUCCEEDED');
+
+      if (attemptResult.ok) {
+        const finishResult = this.attemptsRepo.finish({
+          jobId,
+          attemptNo: attemptResult.value.attemptNo,
+          resultCode: outcome.resultCode,
+          reason: outcome.reason,
+        });
+        if (!finishResult.ok) {
+          this.logger.warn({ jobId, error: finishResult.error }, 'Failed to finish attempt');
+        }
+      }
 
       // Release lease
       const releaseResult = this.jobsRepo.releaseLease(jobId, asLeaseOwner(this.workerId));
       if (!releaseResult.ok) {
         this.logger.warn({ jobId, error: releaseResult.error }, 'Failed to release lease');
       }
+
+      // The job's dependents and its concurrency group may now be leasable by idle workers,
+      // or, if it did not succeed, its dependents can be failed
+      this.workSignal.attemptEnded(jobId);
+      this.workSignal.notify();
     }
+
+    return true;
   }
 
-  private async executeJob(jobId: JobId): Promise<void> {
+  private async executeJob(jobId: JobId, signal: AbortSignal): Promise<AttemptOutcome> {
     // Get job details
     const jobResult = this.jobsRepo.getById(jobId);
     if (!jobResult.ok) {
       this.logger.error({ jobId, error: jobResult.error }, 'Failed to get job');
-      return;
+      return { resultCode: 'INTERNAL_ERROR', reason: jobResult.error };
     }
 
     const job = jobResult.value;
     const spec = job.spec;
 
+    // Route by execution.executor or preferredModel; any worker can serve any executor
+    const executorResult = selectExecutor(this.executors, spec.execution);
+    if (!executorResult.ok) {
+      return await this.handleFailure(job, 'POLICY', executorResult.error);
+    }
+
+    const chain = resolveExecutorChain(this.executors, executorResult.value, this.config.executorFallback);
+    this.logger.debug(
+      { jobId, executors: chain.map((executor) => executor.name), model: spec.execution.preferredModel },
+      'Executor selected'
+    );
+
     // Create isolated work directory
     const workDir = join(tmpdir(), `jobhub-${jobId}`);
     await mkdir(workDir, { recursive: true });
 
     try {
       // Clone/prepare repository
+      let prepared: Result<void, string> = Ok(undefined);
       if (spec.repo.type === 'git' && spec.repo.url) {
-        await this.prepareGitRepo(workDir, spec.repo.url, spec.repo.baselineCommit);
+        prepared = await this.repoCache.checkout(spec.repo.url, spec.repo.baselineCommit, workDir, signal);
       } else if (spec.repo.type === 'local' && spec.repo.path) {
-        // For local repos, we could copy or work in place
-        // For now, log a warning
-        this.logger.warn({ jobId }, 'Local repo execution not fully implemented');
+        prepared = await this.prepareLocalRepo(workDir, spec.repo.path, spec.repo.baselineCommit, signal);
       }
 
-      // Execute with timeout
-      const timeoutMs = spec.execution.timeoutS ? spec.execution.timeoutS * 1000 : 300000; // 5min default
-
-      const execResult = await this.executor.execute(spec, { workDir, timeoutMs });
-
-      if (!execResult.ok) {
-        await this.handleFailure(jobId, 'EXECUTOR_ERROR', execResult.error);
-        return;
+      if (prepared.ok && spec.execution.applyParentPatches && spec.dependsOn?.length) {
+        prepared = await this.applyParentPatches(spec.dependsOn, workDir, signal);
       }
 
-      const output = execResult.value;
+      // A git command cut short by a cancel also reports failure
+      if (signal.aborted) {
+        return this.abandonAttempt(jobId, signal);
+      }
+      if (!prepared.ok) {
+        return await this.handleFailure(job, 'CONFLICT', prepared.error);
+      }
 
-      // Write artifacts
-      await this.artifacts.ensureJobDirectory(jobId);
+      // Execute with timeout
+      const timeoutMs = spec.execution.timeoutS ? spec.execution.timeoutS * 1000 : 300000; // 5min default
 
-      const patchResult = await this.artifacts.write(jobId, 'patch.diff', output.diff);
-      if (patchResult.ok) {
-        this.artifactsRepo.create({
+      let produced: { executor: Executor; output: ExecutorOutput } | null = null;
+      let lastError: ExecutorError | null = null;
+
+      for (const [hop, executor] of chain.entries()) {
+        const env = this.executorEnv(job, executor);
+        // Each hop gets the model only if it serves it, otherwise its own default model
+        const model = resolveModel(this.executors, executor, spec.execution.preferredModel);
+        const execResult = await executor.execute(
+          { ...spec, execution: { ...spec.execution, preferredModel: model } },
+          { workDir, timeoutMs, signal, env }
+        );
+
+        // The heartbeat may not have noticed a cancellation yet, so check the lease directly
+        if (signal.aborted || !this.holdsLease(jobId)) {
+          return this.abandonAttempt(jobId, signal);
+        }
+
+        if (execResult.ok) {
+          produced = { executor, output: execResult.value };
+          break;
+        }
+
+        lastError = execResult.error;
+        const next = chain[hop + 1];
+        if (!next || !shouldFallback(lastError)) {
+          break;
+        }
+
+        this.eventsRepo.create({
           jobId,
-          kind: 'patch.diff',
-          uri: this.artifacts.getURI(jobId, 'patch.diff'),
-          digest: patchResult.value.digest,
-          size: patchResult.value.size,
+          type: 'job.executor_fallback',
+          payload: {
+            from: executor.name,
+            to: next.name,
+            hop: hop + 1,
+            reasonCode: lastError.reasonCode,
+            message: lastError.message,
+            timestamp: Date.now(),
+          },
         });
+
+        this.logger.warn(
+          { jobId, from: executor.name, to: next.name, reasonCode: lastError.reasonCode },
+          'Executor failed, falling back'
+        );
       }
 
-      const outResult = await this.artifacts.write(jobId, 'out.md',
-        `# Test Plan\n\n${output.testPlan}\n\n# Notes\n\n${output.notes}`
-      );
-      if (outResult.ok) {
-        this.artifactsRepo.create({
-          jobId,
-          kind: 'out.md',
-          uri: this.artifacts.getURI(jobId, 'out.md'),
-          digest: outResult.value.digest,
-          size: outResult.value.size,
-        });
+      if (!produced) {
+        return await this.handleFailure(
+          job,
+          lastError?.reasonCode ?? 'INTERNAL_ERROR',
+          lastError?.message ?? 'No executor ran'
+        );
       }
 
-      const logsResult = await this.artifacts.write(jobId, 'logs.txt', output.rawOutput);
-      if (logsResult.ok) {
-        this.artifactsRepo.create({
-          jobId,
-          kind: 'logs.txt',
-          uri: this.artifacts.getURI(jobId, 'logs.txt'),
-          digest: logsResult.value.digest,
-          size: logsResult.value.size,
-        });
+      const { executor, output } = produced;
+
+      // Write artifacts, stopping as soon as the job is no longer ours
+      await this.artifacts.ensureJobDirectory(jobId);
+
+      const artifactContents: Array<[ArtifactKind, string]> = [
+        ['patch.diff', output.diff],
+        ['out.md', `# Test Plan\n\n${output.testPlan}\n\n# Notes\n\n${output.notes}`],
+        ['logs.txt', output.rawOutput],
+      ];
+
+      for (const [kind, content] of artifactContents) {
+        if (signal.aborted) {
+          return this.abandonAttempt(jobId, signal);
+        }
+        await this.writeArtifact(jobId, kind, content, executor.name);
       }
 
       // Validate patch applies cleanly
       const validationResult = await this.validatePatch(workDir, output.diff, spec.repo.baselineCommit);
 
       if (!validationResult) {
-        await this.handleFailure(jobId, 'CONFLICT', 'Patch does not apply cleanly');
-        return;
+        return await this.handleFailure(job, 'CONFLICT', 'Patch does not apply cleanly');
       }
 
-      // Mark as succeeded
-      this.jobsRepo.updateState({
+      if (signal.aborted) {
+        return this.abandonAttempt(jobId, signal);
+      }
+
+      // Mark as succeeded, unless the job was canceled, expired or reclaimed meanwhile
+      const summary = `Completed successfully by ${executor.name} with ${output.diff.split('\n').length} line diff`;
+      const succeedResult = this.jobsRepo.updateState({
         id: jobId,
         state: 'SUCCEEDED',
-        summary: `Completed successfully with ${output.diff.split('\n').length} line diff`,
+        summary,
+        expectedState: 'RUNNING',
+        leaseOwner: asLeaseOwner(this.workerId),
       });
 
+      if (!succeedResult.ok) {
+        return await this.handleFailure(job, 'INTERNAL_ERROR', succeedResult.error);
+      }
+
+      if (!succeedResult.value) {
+        return this.abandonAttempt(jobId, signal);
+      }
+
       this.eventsRepo.create({
         jobId,
         type: 'job.succeeded',
         payload: {
-          executor: this.executor.name,
+          executor: executor.name,
+          fallbackHops: chain.indexOf(executor),
           artifactCount: 3,
           timestamp: Date.now(),
         },
       });
 
       this.logger.info({ jobId }, 'Job completed successfully');
+
+      return { resultCode: 'SUCCEEDED', reason: summary };
     } catch (error) {
-      await this.handleFailure(
-        jobId,
+      if (signal.aborted) {
+        return this.abandonAttempt(jobId, signal);
+      }
+      return await this.handleFailure(
+        job,
         'INTERNAL_ERROR',
         error instanceof Error ? error.message : String(error)
       );
     } finally {
       // Cleanup work directory
+      if (spec.repo.type === 'git' && spec.repo.url) {
+        await this.repoCache.release(spec.repo.url, workDir);
+      }
       await rm(workDir, { recursive: true, force: true });
     }
   }
 
-  private async prepareGitRepo(
-    workDir: string,
-    url: string,
-    commit: string
+  private async writeArtifact(
+    jobId: JobId,
+    kind: ArtifactKind,
+    content: string,
+    executorName: string
   ): Promise<void> {
-    // Clone repository
-    await execa('git', ['clone', '--depth', '1', url, workDir]);
+    const writeResult = await this.artifacts.write(jobId, kind, content);
+    if (!writeResult.ok) {
+      this.logger.warn({ jobId, kind, error: writeResult.error }, 'Failed to write artifact');
+      return;
+    }
 
-    // Checkout specific commit
-    await execa('git', ['fetch', 'origin', commit], { cwd: workDir });
-    await execa('git', ['checkout', commit], { cwd: workDir });
+    this.artifactsRepo.create({
+      jobId,
+      kind,
+      uri: this.artifacts.getURI(jobId, kind),
+      digest: writeResult.value.digest,
+      size: writeResult.value.size,
+      executor: executorName,
+    });
+  }
+
+  /**
+   * Variables the Ask SDK reads inside the agent; the step is the executor run
+   */
+  private executorEnv(job: JobRecord, executor: Executor): Record<string, string> {
+    const env: Record<string, string> = {
+      TASK_RELAY_JOB_ID: job.id,
+      TASK_RELAY_STEP_ID: executor.name,
+      TASK_RELAY_COMMIT_SHA: job.spec.repo.baselineCommit,
+    };
+
+    const repo = job.spec.repo.url ?? job.spec.repo.path;
+    if (repo !== undefined) {
+      env['TASK_RELAY_REPO'] = repo;
+    }
+    if (this.config.askAnswerOrigin !== undefined) {
+      env['ASK_ANSWER_ORIGIN'] = this.config.askAnswerOrigin;
+    }
+
+    return env;
+  }
+
+  private holdsLease(jobId: JobId): boolean {
+    const result = this.jobsRepo.renewLease(jobId, asLeaseOwner(this.workerId), this.config.leaseTtlMs);
+    return result.ok && result.value;
+  }
+
+  /**
+   * Return a job whose attempt drain() cut short to QUEUED. A job waiting on an answer cannot
+   * be requeued directly, so it goes through STALE, as when its lease expires.
+   */
+  private requeueDrained(jobId: JobId): Result<boolean, string> {
+    const leaseOwner = asLeaseOwner(this.workerId);
+    const jobResult = this.jobsRepo.getById(jobId);
+    if (!jobResult.ok) {
+      return jobResult;
+    }
+
+    let state = jobResult.value.state;
+    if (!canTransition(state, 'QUEUED') && canTransition(state, 'STALE')) {
+      const staleResult = this.jobsRepo.updateState({ id: jobId, state: 'STALE', expectedState: state, leaseOwner });
+      if (!staleResult.ok || !staleResult.value) {
+        return staleResult;
+      }
+      state = 'STALE';
+    }
+
+    if (!canTransition(state, 'QUEUED')) {
+      return Ok(false);
+    }
+
+    return this.jobsRepo.requeue({
+      id: jobId,
+      notBefore: Date.now(),
+      summary: 'Requeued: worker drained before the attempt finished',
+      leaseOwner,
+      expectedState: state,
+    });
+  }
+
+  /**
+   * Give up on an attempt whose job was canceled, expired or reclaimed
+   * Leaves the job row alone: whoever moved it on owns its state. Attempts cut short by
+   * drain() requeue their job instead.
+   */
+  private abandonAttempt(jobId: JobId, signal: AbortSignal): AttemptOutcome {
+    if (signal.reason === DRAIN_REASON) {
+      const requeueResult = this.requeueDrained(jobId);
+
+      if (requeueResult.ok && requeueResult.value) {
+        this.eventsRepo.create({
+          jobId,
+          type: 'job.requeued',
+          payload: {
+            workerId: this.workerId,
+            reason: DRAIN_REASON,
+            timestamp: Date.now(),
+          },
+        });
+
+        this.logger.info({ jobId }, 'Job requeued by drain');
+        return { resultCode: 'DRAINED', reason: DRAIN_REASON };
+      }
+    }
+
+    const reason = typeof signal.reason === 'string' ? signal.reason : 'Job is no longer running';
+    const jobResult = this.jobsRepo.getById(jobId);
+    const resultCode =
+      jobResult.ok && isTerminalState(jobResult.value.state) ? jobResult.value.state : 'LEASE_LOST';
+
+    this.eventsRepo.create({
+      jobId,
+      type: 'job.attempt_aborted',
+      payload: {
+        workerId: this.workerId,
+        resultCode,
+        reason,
+        timestamp: Date.now(),
+      },
+    });
+
+    this.logger.info({ jobId, resultCode, reason }, 'Attempt aborted');
+
+    return { resultCode, reason };
+  }
+
+  /**
+   * Clone a local checkout at the baseline commit. --shared only reads the source object
+   * store, so the user's working tree, index and refs are never touched.
+   */
+  private async prepareLocalRepo(
+    workDir: string,
+    path: string,
+    commit: string,
+    signal: AbortSignal
+  ): Promise<Result<void, string>> {
+    const verify = await execa('git', ['-C', path, 'cat-file', '-e', `${commit}^{commit}`], {
+      reject: false,
+      cancelSignal: signal,
+    });
+    if (verify.exitCode !== 0) {
+      return Err(`Baseline commit ${commit} not found in ${path}: ${verify.stderr.trim()}`);
+    }
+
+    await execa('git', ['clone', '--quiet', '--shared', '--no-checkout', path, workDir], { cancelSignal: signal });
+    await execa('git', ['checkout', '--quiet', '--detach', commit], { cwd: workDir, cancelSignal: signal });
+
+    return Ok(undefined);
+  }
+
+  /**
+   * Apply each parent's patch.diff in dependsOn order and commit the result, so the executor
+   * and patch validation work on top of the parents' changes
+   */
+  private async applyParentPatches(
+    parentIds: readonly string[],
+    workDir: string,
+    signal: AbortSignal
+  ): Promise<Result<void, string>> {
+    const patchPath = join(workDir, 'parent.patch');
+    let applied = 0;
+
+    for (const parentId of parentIds) {
+      const patchResult = await this.artifacts.read(asJobId(parentId), 'patch.diff');
+      if (!patchResult.ok) {
+        return Err(`No patch.diff for parent job ${parentId}`);
+      }
+
+      const patch = patchResult.value;
+      if (patch.trim().length === 0) {
+        continue;
+      }
+
+      await writeFile(patchPath, patch.endsWith('\n') ? patch : `${patch}\n`, 'utf-8');
+      const result = await execa('git', ['apply', '--index', patchPath], {
+        cwd: workDir,
+        reject: false,
+        cancelSignal: signal,
+      });
+      await rm(patchPath, { force: true });
+
+      if (result.exitCode !== 0) {
+        return Err(`Patch of parent job ${parentId} does not apply: ${result.stderr.trim()}`);
+      }
+      applied++;
+    }
+
+    if (applied > 0) {
+      await execa(
+        'git',
+        [
+          '-c', 'user.name=Task Relay',
+          '-c', 'user.email=task-relay@localhost',
+          'commit', '--quiet', '--no-verify', '-m', `Apply patches of parent jobs ${parentIds.join(', ')}`,
+        ],
+        { cwd: workDir, cancelSignal: signal }
+      );
+    }
+
+    return Ok(undefined);
   }
 
   private async validatePatch(
@@ -234,9 +695,9 @@ export class Worker {
     _baselineCommit: string
   ): Promise<boolean> {
     try {
-      // Write patch to file
+      // Write patch to file; section parsers trim the final newline git apply requires
       const patchPath = join(workDir, 'temp.patch');
-      await writeFile(patchPath, patch, 'utf-8');
+      await writeFile(patchPath, patch.endsWith('\n') ? patch : `${patch}\n`, 'utf-8');
 
       // Try to apply with --check
       const result = await execa('git', ['apply', '--check', patchPath], {
@@ -251,31 +712,89 @@ export class Worker {
   }
 
   private async handleFailure(
-    jobId: JobId,
-    reasonCode: 'BAD_ARTIFACTS' | 'CONFLICT' | 'POLICY' | 'EXECUTOR_ERROR' | 'INTERNAL_ERROR',
+    job: JobRecord,
+    reasonCode: FailReason,
     message: string
-  ): Promise<void> {
-    this.jobsRepo.updateState({
+  ): Promise<AttemptOutcome> {
+    const jobId = asJobId(job.id);
+    const retryPolicy = job.spec.execution.retry;
+    const attemptsSoFar = this.attemptsRepo.countByJob(jobId);
+
+    if (shouldRetry(retryPolicy, reasonCode, attemptsSoFar)) {
+      const delayMs = computeBackoffMs(retryPolicy, attemptsSoFar);
+      const notBefore = Date.now() + delayMs;
+
+      const requeueResult = this.jobsRepo.requeue({
+        id: jobId,
+        notBefore,
+        reasonCode,
+        summary: `Attempt ${attemptsSoFar}/${retryPolicy.maxAttempts} failed, retrying in ${Math.ceil(delayMs / 1000)}s: ${message}`,
+        // Only while this worker still holds the lease; after a reclaim the job belongs to someone else
+        leaseOwner: asLeaseOwner(this.workerId),
+      });
+
+      if (requeueResult.ok && requeueResult.value) {
+        this.eventsRepo.create({
+          jobId,
+          type: 'job.retry_scheduled',
+          payload: {
+            reasonCode,
+            message,
+            attempt: attemptsSoFar,
+            maxAttempts: retryPolicy.maxAttempts,
+            notBefore,
+            timestamp: Date.now(),
+          },
+        });
+
+        this.logger.warn(
+          { jobId, reasonCode, message, attempt: attemptsSoFar, notBefore },
+          'Job attempt failed, retry scheduled'
+        );
+
+        return { resultCode: reasonCode, reason: message };
+      }
+
+      if (!requeueResult.ok) {
+        this.logger.error({ jobId, error: requeueResult.error }, 'Failed to requeue job');
+      }
+    }
+
+    const failResult = this.jobsRepo.updateState({
       id: jobId,
       state: 'FAILED',
       reasonCode,
       summary: message,
+      expectedState: 'RUNNING',
+      leaseOwner: asLeaseOwner(this.workerId),
     });
 
+    if (!failResult.ok || !failResult.value) {
+      // Canceled, expired or reclaimed (possibly re-leased) meanwhile; never overwrite that state
+      this.logger.warn(
+        { jobId, reasonCode, message, error: failResult.ok ? undefined : failResult.error },
+        'Job failure not recorded, job is no longer running'
+      );
+      return { resultCode: reasonCode, reason: message };
+    }
+
     this.eventsRepo.create({
       jobId,
       type: 'job.failed',
       payload: {
         reasonCode,
         message,
+        attempt: attemptsSoFar,
         timestamp: Date.now(),
       },
     });
 
     this.logger.warn({ jobId, reasonCode, message }, 'Job failed');
+
+    return { resultCode: reasonCode, reason: message };
   }
 
-  private startHeartbeat(jobId: JobId): void {
+  private startHeartbeat(jobId: JobId, abortController: AbortController): void {
     this.heartbeatTimer = setInterval(() => {
       const result = this.jobsRepo.renewLease(
         jobId,
@@ -284,8 +803,14 @@ export class Worker {
       );
 
       if (!result.ok || !result.value) {
-        this.logger.warn({ jobId }, 'Failed to renew lease');
-        this.stop(); // Stop worker if can't renew
+        // Lease was reaped or the job left an active state; stop the executor but keep the worker alive
+        const jobResult = this.jobsRepo.getById(jobId);
+        const reason = jobResult.ok
+          ? `Job is ${jobResult.value.state}${jobResult.value.leaseOwner !== this.workerId ? ', lease lost' : ''}`
+          : 'Lease lost';
+        this.logger.warn({ jobId, reason }, 'Failed to renew lease, aborting attempt');
+        this.stopHeartbeat();
+        abortController.abort(reason);
       }
     }, this.config.heartbeatIntervalMs);
   }
@@ -296,8 +821,4 @@ export class Worker {
       this.heartbeatTimer = null;
     }
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
@@ -15,6 +15,7 @@ export interface ArtifactRow {
   uri: string;
   digest: string;
   size: number;
+  executor: string | null;
   created_at: number;
 }
 
@@ -26,6 +27,7 @@ function rowToMeta(row: ArtifactRow): Result<ArtifactMeta, string> {
       uri: row.uri,
       digest: row.digest,
       size: row.size,
+      executor: row.executor,
       createdAt: row.created_at,
     };
 
@@ -46,18 +48,28 @@ export interface CreateArtifactParams {
   uri: string;
   digest: string;
   size: number;
+  executor?: string;
 }
 
 export class ArtifactsRepository {
   constructor(private readonly db: Database) {}
 
+  /**
+   * Record an artifact, replacing the one written by an earlier attempt
+   */
   create(params: CreateArtifactParams): Result<ArtifactMeta, string> {
     const now = Date.now();
 
     try {
       const stmt = this.db.prepare(`
-        INSERT INTO artifacts (job_id, kind, uri, digest, size, created_at)
-        VALUES (@jobId, @kind, @uri, @digest, @size, @createdAt)
+        INSERT INTO artifacts (job_id, kind, uri, digest, size, executor, created_at)
+        VALUES (@jobId, @kind, @uri, @digest, @size, @executor, @createdAt)
+        ON CONFLICT (job_id, kind) DO UPDATE SET
+          uri = excluded.uri,
+          digest = excluded.digest,
+          size = excluded.size,
+          executor = excluded.executor,
+          created_at = excluded.created_at
       `);
 
       stmt.run({
@@ -66,6 +78,7 @@ export class ArtifactsRepository {
         uri: params.uri,
         digest: params.digest,
         size: params.size,
+        executor: params.executor ?? null,
         createdAt: now,
       });
 
@@ -0,0 +1,188 @@
+/**
+ * Attempts repository - History of every lease taken on a job
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { AttemptRecord } from '../models/index.js';
+import { AttemptRecordSchema } from '../models/index.js';
+import type { JobId, LeaseOwner } from '../models/index.js';
+import { Result, Ok, Err } from '../models/index.js';
+
+export interface AttemptRow {
+  job_id: string;
+  attempt_no: number;
+  lease_owner: string;
+  started_at: number;
+  finished_at: number | null;
+  result_code: string | null;
+  reason: string | null;
+}
+
+function rowToRecord(row: AttemptRow): Result<AttemptRecord, string> {
+  try {
+    const record: AttemptRecord = {
+      jobId: row.job_id,
+      attemptNo: row.attempt_no,
+      leaseOwner: row.lease_owner,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+      resultCode: row.result_code,
+      reason: row.reason,
+    };
+
+    const parsed = AttemptRecordSchema.safeParse(record);
+    if (!parsed.success) {
+      return Err(`Invalid attempt record: ${parsed.error.message}`);
+    }
+
+    return Ok(parsed.data);
+  } catch (error) {
+    return Err(`Failed to parse attempt row: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export interface StartAttemptParams {
+  jobId: JobId;
+  leaseOwner: LeaseOwner;
+}
+
+export interface FinishAttemptParams {
+  jobId: JobId;
+  attemptNo: number;
+  resultCode: string;
+  reason?: string;
+}
+
+export class AttemptsRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * Open the next attempt for a job (numbered from 1)
+   */
+  start(params: StartAttemptParams): Result<AttemptRecord, string> {
+    const now = Date.now();
+
+    try {
+      const row = this.db.prepare(`
+        INSERT INTO attempts (job_id, attempt_no, lease_owner, started_at)
+        SELECT @jobId, COALESCE(MAX(attempt_no), 0) + 1, @leaseOwner, @startedAt
+        FROM attempts
+        WHERE job_id = @jobId
+        RETURNING *
+      `).get({
+        jobId: params.jobId,
+        leaseOwner: params.leaseOwner,
+        startedAt: now,
+      }) as AttemptRow | undefined;
+
+      if (!row) {
+        return Err(`Failed to start attempt for job: ${params.jobId}`);
+      }
+
+      return rowToRecord(row);
+    } catch (error) {
+      return Err(`Failed to start attempt: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Close an open attempt; attempts that already finished are left untouched
+   */
+  finish(params: FinishAttemptParams): Result<boolean, string> {
+    try {
+      const result = this.db.prepare(`
+        UPDATE attempts
+        SET finished_at = @finishedAt,
+            result_code = @resultCode,
+            reason = @reason
+        WHERE job_id = @jobId
+          AND attempt_no = @attemptNo
+          AND finished_at IS NULL
+      `).run({
+        jobId: params.jobId,
+        attemptNo: params.attemptNo,
+        resultCode: params.resultCode,
+        reason: params.reason ?? null,
+        finishedAt: Date.now(),
+      });
+
+      return Ok(result.changes > 0);
+    } catch (error) {
+      return Err(`Failed to finish attempt: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Close whatever attempt is still open for a job (e.g. after its worker died)
+   */
+  finishOpen(jobId: JobId, resultCode: string, reason?: string): Result<number, string> {
+    try {
+      const result = this.db.prepare(`
+        UPDATE attempts
+        SET finished_at = @finishedAt,
+            result_code = @resultCode,
+            reason = @reason
+        WHERE job_id = @jobId
+          AND finished_at IS NULL
+      `).run({
+        jobId,
+        resultCode,
+        reason: reason ?? null,
+        finishedAt: Date.now(),
+      });
+
+      return Ok(result.changes);
+    } catch (error) {
+      return Err(`Failed to finish open attempts: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  listByJob(jobId: JobId): Result<AttemptRecord[], string> {
+    const rows = this.db.prepare(`
+      SELECT * FROM attempts
+      WHERE job_id = ?
+      ORDER BY attempt_no ASC
+    `).all(jobId) as AttemptRow[];
+
+    const records: AttemptRecord[] = [];
+    for (const row of rows) {
+      const result = rowToRecord(row);
+      if (result.ok) {
+        records.push(result.value);
+      } else {
+        return Err(result.error);
+      }
+    }
+
+    return Ok(records);
+  }
+
+  countByJob(jobId: JobId): number {
+    const result = this.db.prepare(`
+      SELECT COUNT(*) as count FROM attempts
+      WHERE job_id = ?
+    `).get(jobId) as { count: number };
+
+    return result.count;
+  }
+
+  countByJobs(jobIds: readonly string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    if (jobIds.length === 0) {
+      return counts;
+    }
+
+    const placeholders = jobIds.map(() => '?').join(', ');
+    const rows = this.db.prepare(`
+      SELECT job_id, COUNT(*) as count FROM attempts
+      WHERE job_id IN (${placeholders})
+      GROUP BY job_id
+    `).all(...jobIds) as Array<{ job_id: string; count: number }>;
+
+    for (const row of rows) {
+      counts.set(row.job_id, row.count);
+    }
+
+    return counts;
+  }
+}
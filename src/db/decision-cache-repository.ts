@@ -5,7 +5,9 @@
 import type { Database } from 'better-sqlite3';
 import {
   DecisionCacheRecordSchema,
+  type Attestation,
   type DecisionCacheRecord,
+  type DecisionCacheInvalidateRequest,
 } from '../models/index.js';
 import { Result, Ok, Err } from '../models/index.js';
 
@@ -14,8 +16,11 @@ interface DecisionCacheRow {
   answer_json: string | null;
   answer_text: string | null;
   policy_trace_json: string | null;
+  attestation_json: string | null;
   created_at: number;
   ttl_seconds: number;
+  hit_count: number;
+  last_used_at: number;
 }
 
 function rowToRecord(row: DecisionCacheRow): Result<DecisionCacheRecord, string> {
@@ -27,8 +32,13 @@ function rowToRecord(row: DecisionCacheRow): Result<DecisionCacheRecord, string>
       policyTrace: row.policy_trace_json
         ? (JSON.parse(row.policy_trace_json) as unknown)
         : undefined,
+      attestation: row.attestation_json
+        ? (JSON.parse(row.attestation_json) as Attestation)
+        : undefined,
       createdAt: row.created_at,
       ttlSeconds: row.ttl_seconds,
+      hitCount: row.hit_count,
+      lastUsedAt: row.last_used_at,
     };
 
     const parsed = DecisionCacheRecordSchema.safeParse(record);
@@ -49,16 +59,29 @@ export interface UpsertDecisionParams {
   answerJson?: unknown;
   answerText?: string;
   policyTrace?: unknown;
+  attestation?: Attestation;
   ttlSeconds: number;
 }
 
+export interface DecisionCacheSummary {
+  entries: number;
+  expired: number;
+  roles: Array<{ roleId: string | null; roleVersion: string | null; entries: number }>;
+}
+
+/** Expiry condition shared by lookups, purging and eviction order */
+const EXPIRED_SQL = 'created_at + (ttl_seconds * 1000) < @now';
+
 export class DecisionCacheRepository {
   constructor(private readonly db: Database) {}
 
-  get(decisionKey: string): Result<DecisionCacheRecord | null, string> {
+  /**
+   * Entries past their TTL are treated as missing
+   */
+  get(decisionKey: string, now: number = Date.now()): Result<DecisionCacheRecord | null, string> {
     const row = this.db
-      .prepare('SELECT * FROM decision_cache WHERE decision_key = ?')
-      .get(decisionKey) as DecisionCacheRow | undefined;
+      .prepare(`SELECT * FROM decision_cache WHERE decision_key = @decisionKey AND NOT (${EXPIRED_SQL})`)
+      .get({ decisionKey, now }) as DecisionCacheRow | undefined;
 
     if (!row) {
       return Ok(null);
@@ -77,22 +100,40 @@ export class DecisionCacheRepository {
           answer_json,
           answer_text,
           policy_trace_json,
+          attestation_json,
+          role_id,
+          role_version,
+          policy_version,
           created_at,
-          ttl_seconds
+          ttl_seconds,
+          hit_count,
+          last_used_at
         ) VALUES (
           @decisionKey,
           @answerJson,
           @answerText,
           @policyTraceJson,
+          @attestationJson,
+          @roleId,
+          @roleVersion,
+          @policyVersion,
           @createdAt,
-          @ttlSeconds
+          @ttlSeconds,
+          0,
+          @createdAt
         )
         ON CONFLICT(decision_key) DO UPDATE SET
           answer_json = excluded.answer_json,
           answer_text = excluded.answer_text,
           policy_trace_json = excluded.policy_trace_json,
+          attestation_json = excluded.attestation_json,
+          role_id = excluded.role_id,
+          role_version = excluded.role_version,
+          policy_version = excluded.policy_version,
           created_at = excluded.created_at,
-          ttl_seconds = excluded.ttl_seconds
+          ttl_seconds = excluded.ttl_seconds,
+          hit_count = 0,
+          last_used_at = excluded.last_used_at
       `);
 
       stmt.run({
@@ -100,11 +141,15 @@ export class DecisionCacheRepository {
         answerJson: params.answerJson !== undefined ? JSON.stringify(params.answerJson) : null,
         answerText: params.answerText ?? null,
         policyTraceJson: params.policyTrace ? JSON.stringify(params.policyTrace) : null,
+        attestationJson: params.attestation ? JSON.stringify(params.attestation) : null,
+        roleId: params.attestation?.role_id ?? null,
+        roleVersion: params.attestation?.role_version ?? null,
+        policyVersion: params.attestation?.policy_version ?? null,
         createdAt: now,
         ttlSeconds: params.ttlSeconds,
       });
 
-      const fetched = this.get(params.decisionKey);
+      const fetched = this.get(params.decisionKey, now);
       if (!fetched.ok) {
         return fetched;
       }
@@ -121,11 +166,27 @@ export class DecisionCacheRepository {
     }
   }
 
-  purgeExpired(now: number = Date.now()): Result<number, string> {
+  /**
+   * Record a cache hit for LRU ordering
+   */
+  touch(decisionKey: string, now: number = Date.now()): Result<void, string> {
     try {
-      const stmt = this.db.prepare(
-        'DELETE FROM decision_cache WHERE created_at + (ttl_seconds * 1000) < @now'
+      this.db
+        .prepare(
+          'UPDATE decision_cache SET hit_count = hit_count + 1, last_used_at = ? WHERE decision_key = ?'
+        )
+        .run(now, decisionKey);
+      return Ok(undefined);
+    } catch (error) {
+      return Err(
+        `Failed to update decision cache entry: ${error instanceof Error ? error.message : String(error)}`
       );
+    }
+  }
+
+  purgeExpired(now: number = Date.now()): Result<number, string> {
+    try {
+      const stmt = this.db.prepare(`DELETE FROM decision_cache WHERE ${EXPIRED_SQL}`);
       const result = stmt.run({ now });
       return Ok(result.changes ?? 0);
     } catch (error) {
@@ -134,4 +195,72 @@ export class DecisionCacheRepository {
       );
     }
   }
+
+  /**
+   * Shrink the cache to maxEntries, dropping expired entries first, then the least recently used
+   */
+  evictOverflow(maxEntries: number, now: number = Date.now()): Result<number, string> {
+    try {
+      const result = this.db
+        .prepare(`
+          DELETE FROM decision_cache
+          WHERE decision_key IN (
+            SELECT decision_key FROM decision_cache
+            ORDER BY (${EXPIRED_SQL}) DESC, last_used_at ASC, created_at ASC
+            LIMIT MAX(0, (SELECT COUNT(*) FROM decision_cache) - @maxEntries)
+          )
+        `)
+        .run({ maxEntries, now });
+      return Ok(result.changes);
+    } catch (error) {
+      return Err(
+        `Failed to evict decision cache entries: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Delete entries matching every given filter; a role ID also matches its `@vN` forms
+   */
+  invalidate(filter: DecisionCacheInvalidateRequest): Result<number, string> {
+    try {
+      const result = this.db
+        .prepare(`
+          DELETE FROM decision_cache
+          WHERE (@roleId IS NULL OR role_id = @roleId OR substr(role_id, 1, length(@roleId) + 1) = @roleId || '@')
+            AND (@policyVersion IS NULL OR policy_version = @policyVersion)
+            AND (@keyPrefix IS NULL OR substr(decision_key, 1, length(@keyPrefix)) = @keyPrefix)
+        `)
+        .run({
+          roleId: filter.roleId ?? null,
+          policyVersion: filter.policyVersion ?? null,
+          keyPrefix: filter.keyPrefix ?? null,
+        });
+      return Ok(result.changes);
+    } catch (error) {
+      return Err(
+        `Failed to invalidate decision cache: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  summary(now: number = Date.now()): DecisionCacheSummary {
+    const totals = this.db
+      .prepare(`
+        SELECT COUNT(*) AS entries, COALESCE(SUM(${EXPIRED_SQL}), 0) AS expired
+        FROM decision_cache
+      `)
+      .get({ now }) as { entries: number; expired: number };
+
+    const roles = this.db
+      .prepare(`
+        SELECT role_id AS roleId, role_version AS roleVersion, COUNT(*) AS entries
+        FROM decision_cache
+        GROUP BY role_id, role_version
+        ORDER BY role_id ASC, role_version ASC
+      `)
+      .all() as DecisionCacheSummary['roles'];
+
+    return { entries: totals.entries, expired: totals.expired, roles };
+  }
 }
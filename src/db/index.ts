@@ -3,9 +3,13 @@
  */
 
 export * from './connection.js';
+export * from './migrator.js';
 export * from './jobs-repository.js';
 export * from './artifacts-repository.js';
+export * from './attempts-repository.js';
 export * from './events-repository.js';
 export * from './asks-repository.js';
 export * from './answers-repository.js';
 export * from './decision-cache-repository.js';
+export * from './schedules-repository.js';
+export * from './workers-repository.js';
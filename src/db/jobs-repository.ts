@@ -27,6 +27,10 @@ export interface JobRow {
   heartbeat_at: number | null;
   lease_owner: string | null;
   lease_expires_at: number | null;
+  not_before: number | null;
+  concurrency_key: string | null;
+  concurrency_limit: number | null;
+  depends_on_json: string | null;
   repo_json: string;
   task_json: string;
   scope_json: string;
@@ -48,6 +52,7 @@ function rowToRecord(row: JobRow): Result<JobRecord, string> {
       execution: JSON.parse(row.execution_json) as JobSpec['execution'],
       idempotencyKey: row.idempotency_key,
       notify: row.notify_json ? (JSON.parse(row.notify_json) as JobSpec['notify']) : undefined,
+      dependsOn: row.depends_on_json ? (JSON.parse(row.depends_on_json) as JobSpec['dependsOn']) : undefined,
     };
 
     const record: JobRecord = {
@@ -63,6 +68,7 @@ function rowToRecord(row: JobRow): Result<JobRecord, string> {
       heartbeatAt: row.heartbeat_at,
       leaseOwner: row.lease_owner,
       leaseExpiresAt: row.lease_expires_at,
+      notBefore: row.not_before,
       spec,
       summary: row.summary,
       reasonCode: row.reason_code as FailReason | null,
@@ -79,6 +85,14 @@ function rowToRecord(row: JobRow): Result<JobRecord, string> {
   }
 }
 
+/**
+ * Jobs sharing a key are limited in how many may be leased at once; by default one group
+ * per repository and base branch, since their patches would conflict
+ */
+export function concurrencyKeyFor(spec: JobSpec): string {
+  return spec.execution.concurrencyKey ?? `${spec.repo.url ?? spec.repo.path ?? ''}#${spec.repo.baseBranch}`;
+}
+
 export interface CreateJobParams {
   id: JobId;
   spec: JobSpec;
@@ -91,13 +105,46 @@ export interface UpdateJobStateParams {
   state: JobState;
   reasonCode?: FailReason;
   summary?: string;
+  /** Compare-and-set: only apply while the job is still in this state */
+  expectedState?: JobState;
+  /** Only apply while this owner still holds the lease */
+  leaseOwner?: LeaseOwner;
+}
+
+export interface RequeueJobParams {
+  id: JobId;
+  notBefore: number;
+  reasonCode?: FailReason;
+  summary?: string;
+  /** Only requeue while this owner still holds the lease */
+  leaseOwner?: LeaseOwner;
+  /** Only requeue from this state */
+  expectedState?: JobState;
 }
 
 export interface AcquireLeaseParams {
   owner: LeaseOwner;
   leaseTtlMs: number;
+  /** Leased jobs allowed per concurrency key when the job sets no concurrencyLimit */
+  concurrencyLimit: number;
+  /** Queued time that raises a job by one priority level; 0 disables aging */
+  priorityAgingMs: number;
 }
 
+/**
+ * Effective priority level (0 = P0) in SQL, binding @now and @agingMs; mirrors
+ * effectivePriority() in core/priority.ts
+ */
+const EFFECTIVE_PRIORITY_SQL = `
+  MAX(0, CAST(SUBSTR(priority, 2) AS INTEGER) - CASE
+    WHEN @agingMs > 0 THEN MAX(0,
+      CASE WHEN state = 'QUEUED' THEN @now ELSE COALESCE(started_at, finished_at, @now) END
+        - MAX(created_at, COALESCE(not_before, 0))
+    ) / @agingMs
+    ELSE 0
+  END)
+`;
+
 export class JobsRepository {
   constructor(private readonly db: Database) {}
 
@@ -108,14 +155,14 @@ export class JobsRepository {
       const stmt = this.db.prepare(`
         INSERT INTO jobs (
           id, idempotency_key, state, state_version, priority,
-          created_at, ttl_s,
+          created_at, ttl_s, not_before, concurrency_key, concurrency_limit,
           repo_json, task_json, scope_json, context_json,
-          execution_json, notify_json
+          execution_json, notify_json, depends_on_json
         ) VALUES (
           @id, @idempotencyKey, @state, 0, @priority,
-          @createdAt, @ttlS,
+          @createdAt, @ttlS, @notBefore, @concurrencyKey, @concurrencyLimit,
           @repoJson, @taskJson, @scopeJson, @contextJson,
-          @executionJson, @notifyJson
+          @executionJson, @notifyJson, @dependsOnJson
         )
       `);
 
@@ -126,12 +173,16 @@ export class JobsRepository {
         priority: params.priority,
         createdAt: now,
         ttlS: params.ttlS,
+        notBefore: params.spec.execution.notBefore ?? null,
+        concurrencyKey: concurrencyKeyFor(params.spec),
+        concurrencyLimit: params.spec.execution.concurrencyLimit ?? null,
         repoJson: JSON.stringify(params.spec.repo),
         taskJson: JSON.stringify(params.spec.task),
         scopeJson: JSON.stringify(params.spec.scope),
         contextJson: params.spec.context ? JSON.stringify(params.spec.context) : null,
         executionJson: JSON.stringify(params.spec.execution),
         notifyJson: params.spec.notify ? JSON.stringify(params.spec.notify) : null,
+        dependsOnJson: params.spec.dependsOn?.length ? JSON.stringify(params.spec.dependsOn) : null,
       });
 
       return this.getById(params.id);
@@ -160,19 +211,107 @@ export class JobsRepository {
     return rowToRecord(row);
   }
 
-  list(filters: { state?: JobState; limit: number; offset: number }): Result<JobRecord[], string> {
+  /**
+   * Jobs in the order they would be leased: effective priority, then age
+   */
+  list(filters: {
+    state?: JobState;
+    limit: number;
+    offset: number;
+    priorityAgingMs?: number;
+  }): Result<JobRecord[], string> {
     let query = 'SELECT * FROM jobs';
-    const params: unknown[] = [];
 
     if (filters.state) {
-      query += ' WHERE state = ?';
-      params.push(filters.state);
+      query += ' WHERE state = @state';
+    }
+
+    query += ` ORDER BY ${EFFECTIVE_PRIORITY_SQL} ASC, created_at ASC LIMIT @limit OFFSET @offset`;
+
+    const rows = this.db.prepare(query).all({
+      ...(filters.state ? { state: filters.state } : {}),
+      limit: filters.limit,
+      offset: filters.offset,
+      now: Date.now(),
+      agingMs: filters.priorityAgingMs ?? 0,
+    }) as JobRow[];
+
+    const records: JobRecord[] = [];
+    for (const row of rows) {
+      const result = rowToRecord(row);
+      if (result.ok) {
+        records.push(result.value);
+      } else {
+        return Err(result.error);
+      }
+    }
+
+    return Ok(records);
+  }
+
+  /**
+   * Active jobs whose lease expired before `now` (worker stopped heartbeating)
+   */
+  listExpiredLeases(now: number): Result<JobRecord[], string> {
+    const rows = this.db.prepare(`
+      SELECT * FROM jobs
+      WHERE state IN ('RUNNING', 'WAITING_ON_ANSWER')
+        AND lease_expires_at IS NOT NULL
+        AND lease_expires_at < ?
+      ORDER BY lease_expires_at ASC
+    `).all(now) as JobRow[];
+
+    const records: JobRecord[] = [];
+    for (const row of rows) {
+      const result = rowToRecord(row);
+      if (result.ok) {
+        records.push(result.value);
+      } else {
+        return Err(result.error);
+      }
+    }
+
+    return Ok(records);
+  }
+
+  /**
+   * Unfinished jobs whose TTL (created_at + ttl_s) has passed
+   */
+  listOverdue(now: number): Result<JobRecord[], string> {
+    const rows = this.db.prepare(`
+      SELECT * FROM jobs
+      WHERE state IN ('QUEUED', 'RUNNING', 'WAITING_ON_ANSWER', 'STALE')
+        AND created_at + (ttl_s * 1000) < ?
+      ORDER BY created_at ASC
+    `).all(now) as JobRow[];
+
+    const records: JobRecord[] = [];
+    for (const row of rows) {
+      const result = rowToRecord(row);
+      if (result.ok) {
+        records.push(result.value);
+      } else {
+        return Err(result.error);
+      }
     }
 
-    query += ' ORDER BY priority ASC, created_at ASC LIMIT ? OFFSET ?';
-    params.push(filters.limit, filters.offset);
+    return Ok(records);
+  }
 
-    const rows = this.db.prepare(query).all(...params) as JobRow[];
+  /**
+   * Queued jobs with a dependsOn parent that ended FAILED, CANCELED or EXPIRED
+   */
+  listBlockedByFailedParents(): Result<JobRecord[], string> {
+    const rows = this.db.prepare(`
+      SELECT * FROM jobs AS child
+      WHERE state = 'QUEUED'
+        AND EXISTS (
+          SELECT 1 FROM json_each(child.depends_on_json) AS dependency
+          JOIN jobs AS parent ON parent.id = dependency.value
+          WHERE parent.state IN ('FAILED', 'CANCELED', 'EXPIRED')
+        )
+      ORDER BY created_at ASC
+    `).all() as JobRow[];
 
     const records: JobRecord[] = [];
     for (const row of rows) {
@@ -196,7 +335,12 @@ export class JobsRepository {
     return result.count;
   }
 
-  updateState(params: UpdateJobStateParams): Result<void, string> {
+  /**
+   * Move a job to a new state
+   * Terminal jobs are never updated, and expectedState/leaseOwner turn this into a compare-and-set.
+   * Returns false when the guard rejected the update (or the job does not exist).
+   */
+  updateState(params: UpdateJobStateParams): Result<boolean, string> {
     try {
       const stmt = this.db.prepare(`
         UPDATE jobs
@@ -210,6 +354,9 @@ export class JobsRepository {
               ELSE finished_at
             END
         WHERE id = @id
+          AND state NOT IN ('SUCCEEDED', 'FAILED', 'CANCELED', 'EXPIRED')
+          AND (@expectedState IS NULL OR state = @expectedState)
+          AND (@leaseOwner IS NULL OR lease_owner = @leaseOwner)
       `);
 
       const result = stmt.run({
@@ -217,34 +364,112 @@ export class JobsRepository {
         state: params.state,
         summary: params.summary ?? null,
         reasonCode: params.reasonCode ?? null,
+        expectedState: params.expectedState ?? null,
+        leaseOwner: params.leaseOwner ?? null,
         now: Date.now(),
       });
 
-      if (result.changes === 0) {
-        return Err(`Job not found: ${params.id}`);
-      }
-
-      return Ok(undefined);
+      return Ok(result.changes > 0);
     } catch (error) {
       return Err(`Failed to update job state: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Mark an active job STALE if its lease is still expired
+   * Returns false when a worker renewed the lease or the job moved on meanwhile.
+   */
+  markStale(id: JobId, now: number): Result<boolean, string> {
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE jobs
+        SET state = 'STALE',
+            state_version = state_version + 1,
+            lease_owner = NULL,
+            lease_expires_at = NULL
+        WHERE id = @id
+          AND state IN ('RUNNING', 'WAITING_ON_ANSWER')
+          AND lease_expires_at < @now
+      `);
+
+      const result = stmt.run({ id, now });
+      return Ok(result.changes > 0);
+    } catch (error) {
+      return Err(`Failed to mark job stale: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Return a non-terminal job to QUEUED, dropping its lease
+   * The job is not leasable again before `notBefore`.
+   */
+  requeue(params: RequeueJobParams): Result<boolean, string> {
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE jobs
+        SET state = 'QUEUED',
+            state_version = state_version + 1,
+            lease_owner = NULL,
+            lease_expires_at = NULL,
+            not_before = @notBefore,
+            summary = COALESCE(@summary, summary),
+            reason_code = @reasonCode
+        WHERE id = @id
+          AND state NOT IN ('SUCCEEDED', 'FAILED', 'CANCELED', 'EXPIRED')
+          AND (@expectedState IS NULL OR state = @expectedState)
+          AND (@leaseOwner IS NULL OR lease_owner = @leaseOwner)
+      `);
+
+      const result = stmt.run({
+        id: params.id,
+        notBefore: params.notBefore,
+        expectedState: params.expectedState ?? null,
+        summary: params.summary ?? null,
+        reasonCode: params.reasonCode ?? null,
+        leaseOwner: params.leaseOwner ?? null,
+      });
+
+      return Ok(result.changes > 0);
+    } catch (error) {
+      return Err(`Failed to requeue job: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   acquireLease(params: AcquireLeaseParams): Result<JobId | null, string> {
     const now = Date.now();
     const leaseExpiry = now + params.leaseTtlMs;
 
     try {
-      // Use transaction for atomic acquire
+      // Immediate transaction: take the write lock before counting in-flight jobs, so
+      // workers in other processes cannot both fill the last slot of a concurrency group
       const acquired = this.db.transaction(() => {
-        // Find available job
+        // Find available job whose parents succeeded and whose concurrency group is not saturated
         const row = this.db.prepare(`
-          SELECT id FROM jobs
+          SELECT id FROM jobs AS candidate
           WHERE state = 'QUEUED'
             AND (lease_expires_at IS NULL OR lease_expires_at < @now)
-          ORDER BY priority ASC, created_at ASC
+            AND (not_before IS NULL OR not_before <= @now)
+            AND created_at + (ttl_s * 1000) >= @now
+            AND (
+              concurrency_key IS NULL
+              OR (
+                SELECT COUNT(*) FROM jobs AS leased
+                WHERE leased.concurrency_key = candidate.concurrency_key
+                  AND leased.state IN ('RUNNING', 'WAITING_ON_ANSWER')
+              ) < COALESCE(candidate.concurrency_limit, @concurrencyLimit)
+            )
+            AND NOT EXISTS (
+              SELECT 1 FROM json_each(candidate.depends_on_json) AS dependency
+              LEFT JOIN jobs AS parent ON parent.id = dependency.value
+              WHERE parent.state IS NULL OR parent.state != 'SUCCEEDED'
+            )
+          ORDER BY ${EFFECTIVE_PRIORITY_SQL} ASC, created_at ASC
           LIMIT 1
-        `).get({ now }) as { id: string } | undefined;
+        `).get({
+          now,
+          concurrencyLimit: params.concurrencyLimit,
+          agingMs: params.priorityAgingMs,
+        }) as { id: string } | undefined;
 
         if (!row) {
           return null;
@@ -270,7 +495,7 @@ export class JobsRepository {
         });
 
         return result.changes > 0 ? asJobId(row.id) : null;
-      })();
+      }).immediate();
 
       return Ok(acquired);
     } catch (error) {
@@ -278,6 +503,18 @@ export class JobsRepository {
     }
   }
 
+  /**
+   * Earliest future notBefore among queued jobs, i.e. when a delayed job becomes leasable
+   */
+  nextNotBefore(now: number = Date.now()): number | null {
+    const row = this.db.prepare(`
+      SELECT MIN(not_before) AS next FROM jobs
+      WHERE state = 'QUEUED' AND not_before > ?
+    `).get(now) as { next: number | null } | undefined;
+
+    return row?.next ?? null;
+  }
+
   renewLease(id: JobId, owner: LeaseOwner, leaseTtlMs: number): Result<boolean, string> {
     const now = Date.now();
     const leaseExpiry = now + leaseTtlMs;
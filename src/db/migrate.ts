@@ -1,22 +1,69 @@
 #!/usr/bin/env node
 /**
  * Migration runner script
+ * Usage: migrate [status|up|verify]
  */
 
-import { createConnection, runMigrations } from './connection.js';
+import { createConnection } from './connection.js';
+import { Migrator, type MigrationStatus } from './migrator.js';
 
-const dbPath = process.env['DB_PATH'] || './jobhub.db';
+const dbPath = process.env['TASK_RELAY_SQLITE_URL'] || process.env['DB_PATH'] || './jobhub.db';
+const command = process.argv[2] ?? 'up';
 
-console.log(`Running migrations on database: ${dbPath}`);
+function printStatus(statuses: MigrationStatus[]): void {
+  for (const status of statuses) {
+    const appliedAt = status.appliedAt ? new Date(status.appliedAt).toISOString() : '-';
+    console.log(
+      `${String(status.version).padStart(4, '0')}  ${status.name.padEnd(32)} ${status.state.padEnd(8)} ${appliedAt}`
+    );
+  }
+}
+
+if (command !== 'status' && command !== 'up' && command !== 'verify') {
+  console.error(`Unknown migrate command: ${command} (expected status, up or verify)`);
+  process.exit(1);
+}
+
+console.log(`Database: ${dbPath}`);
 
 const { db, close } = createConnection(dbPath, { mode: 'sqlite' });
+const migrator = new Migrator(db);
+let exitCode = 0;
 
 try {
-  runMigrations(db);
-  console.log('Migrations completed successfully');
+  switch (command) {
+    case 'status': {
+      const result = migrator.status();
+      if (!result.ok) {
+        throw new Error(result.error);
+      }
+      printStatus(result.value);
+      break;
+    }
+    case 'verify': {
+      const result = migrator.verify();
+      if (!result.ok) {
+        throw new Error(result.error);
+      }
+      const pending = result.value.filter((status) => status.state === 'pending').length;
+      console.log(`Schema verified (${pending} pending)`);
+      break;
+    }
+    case 'up': {
+      const result = migrator.up();
+      if (!result.ok) {
+        throw new Error(result.error);
+      }
+      printStatus(result.value);
+      console.log(`Applied ${result.value.length} migration(s)`);
+      break;
+    }
+  }
 } catch (error) {
-  console.error('Migration failed:', error);
-  process.exit(1);
+  console.error('Migration failed:', error instanceof Error ? error.message : String(error));
+  exitCode = 1;
 } finally {
   close();
 }
+
+process.exit(exitCode);
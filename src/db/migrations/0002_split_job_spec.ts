@@ -0,0 +1,65 @@
+/**
+ * 0002 - Split jobs.spec_json into the per-section columns used by JobsRepository
+ * Rebuilds the jobs table; existing rows are carried over via json_extract.
+ * Also drops the legacy schema_version table now tracked by schema_migrations.
+ */
+
+import type { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+  version: 2,
+  name: 'split_job_spec',
+  foreignKeys: false,
+  up: `
+    CREATE TABLE jobs_next (
+      id TEXT PRIMARY KEY,
+      idempotency_key TEXT NOT NULL UNIQUE,
+      state TEXT NOT NULL,
+      state_version INTEGER NOT NULL DEFAULT 0,
+      priority TEXT NOT NULL DEFAULT 'P1',
+      created_at INTEGER NOT NULL,
+      started_at INTEGER,
+      finished_at INTEGER,
+      ttl_s INTEGER NOT NULL DEFAULT 3600,
+      heartbeat_at INTEGER,
+      lease_owner TEXT,
+      lease_expires_at INTEGER,
+      repo_json TEXT NOT NULL,
+      task_json TEXT NOT NULL,
+      scope_json TEXT NOT NULL,
+      context_json TEXT,
+      execution_json TEXT NOT NULL,
+      notify_json TEXT,
+      summary TEXT,
+      reason_code TEXT
+    );
+
+    INSERT INTO jobs_next (
+      id, idempotency_key, state, state_version, priority,
+      created_at, started_at, finished_at, ttl_s,
+      heartbeat_at, lease_owner, lease_expires_at,
+      repo_json, task_json, scope_json, context_json,
+      execution_json, notify_json, summary, reason_code
+    )
+    SELECT
+      id, idempotency_key, state, state_version, priority,
+      created_at, started_at, finished_at, ttl_s,
+      heartbeat_at, lease_owner, lease_expires_at,
+      json_extract(spec_json, '$.repo'),
+      json_extract(spec_json, '$.task'),
+      json_extract(spec_json, '$.scope'),
+      json_extract(spec_json, '$.context'),
+      json_extract(spec_json, '$.execution'),
+      json_extract(spec_json, '$.notify'),
+      summary, reason_code
+    FROM jobs;
+
+    DROP TABLE jobs;
+    ALTER TABLE jobs_next RENAME TO jobs;
+
+    CREATE INDEX idx_jobs_state ON jobs(state, priority, created_at);
+    CREATE INDEX idx_jobs_lease ON jobs(lease_owner, lease_expires_at);
+
+    DROP TABLE IF EXISTS schema_version;
+  `,
+};
@@ -0,0 +1,24 @@
+/**
+ * 0003 - Attempt history
+ * One row per lease taken on a job, closed with the outcome of that run.
+ */
+
+import type { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+  version: 3,
+  name: 'attempts',
+  up: `
+    CREATE TABLE attempts (
+      job_id TEXT NOT NULL,
+      attempt_no INTEGER NOT NULL,
+      lease_owner TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      finished_at INTEGER,
+      result_code TEXT,
+      reason TEXT,
+      PRIMARY KEY (job_id, attempt_no),
+      FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE
+    );
+  `,
+};
@@ -0,0 +1,13 @@
+/**
+ * 0004 - Earliest lease time for queued jobs (retry backoff)
+ */
+
+import type { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+  version: 4,
+  name: 'job_not_before',
+  up: `
+    ALTER TABLE jobs ADD COLUMN not_before INTEGER;
+  `,
+};
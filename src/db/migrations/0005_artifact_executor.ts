@@ -0,0 +1,13 @@
+/**
+ * 0005 - Record which executor produced each artifact
+ */
+
+import type { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+  version: 5,
+  name: 'artifact_executor',
+  up: `
+    ALTER TABLE artifacts ADD COLUMN executor TEXT;
+  `,
+};
@@ -0,0 +1,24 @@
+/**
+ * 0006 - Concurrency groups: at most concurrency_limit leased jobs per concurrency_key
+ * Existing rows get the default key (repo URL or path + base branch).
+ */
+
+import type { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+  version: 6,
+  name: 'job_concurrency_key',
+  up: `
+    ALTER TABLE jobs ADD COLUMN concurrency_key TEXT;
+    ALTER TABLE jobs ADD COLUMN concurrency_limit INTEGER;
+
+    UPDATE jobs
+    SET concurrency_key = COALESCE(
+          json_extract(execution_json, '$.concurrencyKey'),
+          COALESCE(json_extract(repo_json, '$.url'), json_extract(repo_json, '$.path'), '') || '#' || json_extract(repo_json, '$.baseBranch')
+        ),
+        concurrency_limit = json_extract(execution_json, '$.concurrencyLimit');
+
+    CREATE INDEX idx_jobs_concurrency ON jobs(concurrency_key, state);
+  `,
+};
@@ -0,0 +1,13 @@
+/**
+ * 0007 - Parent jobs that must succeed before a job can be leased
+ */
+
+import type { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+  version: 7,
+  name: 'job_depends_on',
+  up: `
+    ALTER TABLE jobs ADD COLUMN depends_on_json TEXT;
+  `,
+};
@@ -0,0 +1,28 @@
+/**
+ * 0008 - Recurring job schedules
+ * Each row is a job spec template plus a cron expression; the scheduler materializes one job
+ * per tick.
+ */
+
+import type { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+  version: 8,
+  name: 'schedules',
+  up: `
+    CREATE TABLE schedules (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      cron TEXT NOT NULL,
+      spec_json TEXT NOT NULL,
+      paused INTEGER NOT NULL DEFAULT 0,
+      next_run_at INTEGER,
+      last_run_at INTEGER,
+      last_job_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX idx_schedules_due ON schedules(paused, next_run_at);
+  `,
+};
@@ -0,0 +1,30 @@
+/**
+ * 0009 - Worker registry
+ * One row per worker loop, keyed by the ID it writes to jobs.lease_owner.
+ */
+
+import type { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+  version: 9,
+  name: 'workers',
+  up: `
+    CREATE TABLE workers (
+      id TEXT PRIMARY KEY,
+      host TEXT NOT NULL,
+      pid INTEGER NOT NULL,
+      executors_json TEXT NOT NULL,
+      state TEXT NOT NULL,
+      current_job_id TEXT,
+      current_job_started_at INTEGER,
+      attempts_started INTEGER NOT NULL DEFAULT 0,
+      attempts_succeeded INTEGER NOT NULL DEFAULT 0,
+      attempts_failed INTEGER NOT NULL DEFAULT 0,
+      started_at INTEGER NOT NULL,
+      heartbeat_at INTEGER NOT NULL,
+      stopped_at INTEGER
+    );
+
+    CREATE INDEX idx_workers_heartbeat ON workers(heartbeat_at);
+  `,
+};
@@ -0,0 +1,13 @@
+/**
+ * 0010 - Keep the original attestation with each cached decision
+ */
+
+import type { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+  version: 10,
+  name: 'decision_cache_attestation',
+  up: `
+    ALTER TABLE decision_cache ADD COLUMN attestation_json TEXT;
+  `,
+};
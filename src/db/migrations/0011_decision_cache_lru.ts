@@ -0,0 +1,28 @@
+/**
+ * 0011 - Decision cache bookkeeping
+ * Role and policy columns for bulk invalidation, and usage columns for LRU eviction.
+ * Existing entries are backfilled from their attestation.
+ */
+
+import type { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+  version: 11,
+  name: 'decision_cache_lru',
+  up: `
+    ALTER TABLE decision_cache ADD COLUMN role_id TEXT;
+    ALTER TABLE decision_cache ADD COLUMN role_version TEXT;
+    ALTER TABLE decision_cache ADD COLUMN policy_version TEXT;
+    ALTER TABLE decision_cache ADD COLUMN hit_count INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE decision_cache ADD COLUMN last_used_at INTEGER;
+
+    UPDATE decision_cache
+    SET role_id = json_extract(attestation_json, '$.role_id'),
+        role_version = json_extract(attestation_json, '$.role_version'),
+        policy_version = json_extract(attestation_json, '$.policy_version'),
+        last_used_at = created_at;
+
+    CREATE INDEX idx_decision_cache_last_used ON decision_cache(last_used_at);
+    CREATE INDEX idx_decision_cache_role ON decision_cache(role_id);
+  `,
+};
@@ -0,0 +1,31 @@
+/**
+ * Ordered list of schema migrations
+ * Append new steps at the end; never edit or renumber an applied step.
+ */
+
+import type { Migration } from '../migrator.js';
+import { migration as baseline } from './0001_baseline.js';
+import { migration as splitJobSpec } from './0002_split_job_spec.js';
+import { migration as attempts } from './0003_attempts.js';
+import { migration as jobNotBefore } from './0004_job_not_before.js';
+import { migration as artifactExecutor } from './0005_artifact_executor.js';
+import { migration as jobConcurrencyKey } from './0006_job_concurrency_key.js';
+import { migration as jobDependsOn } from './0007_job_depends_on.js';
+import { migration as schedules } from './0008_schedules.js';
+import { migration as workers } from './0009_workers.js';
+import { migration as decisionCacheAttestation } from './0010_decision_cache_attestation.js';
+import { migration as decisionCacheLru } from './0011_decision_cache_lru.js';
+
+export const migrations: readonly Migration[] = [
+  baseline,
+  splitJobSpec,
+  attempts,
+  jobNotBefore,
+  artifactExecutor,
+  jobConcurrencyKey,
+  jobDependsOn,
+  schedules,
+  workers,
+  decisionCacheAttestation,
+  decisionCacheLru,
+];
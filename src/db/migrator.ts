@@ -0,0 +1,229 @@
+/**
+ * Schema migrator - Versioned, checksummed migrations
+ * Each step runs in its own transaction and is recorded in schema_migrations.
+ */
+
+import type { Database } from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { Result, Ok, Err } from '../models/index.js';
+import { migrations as defaultMigrations } from './migrations/index.js';
+
+export interface Migration {
+  /** Sequential version, starting at 1 */
+  readonly version: number;
+  readonly name: string;
+  /** SQL applied inside a single transaction */
+  readonly up: string;
+  /** Set to false for table rebuilds; foreign keys are re-checked before commit */
+  readonly foreignKeys?: boolean;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'unknown';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  checksum: string;
+  state: MigrationState;
+  appliedAt: number | null;
+}
+
+interface AppliedRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: number;
+}
+
+export function migrationChecksum(migration: Migration): string {
+  return createHash('sha256').update(migration.up, 'utf8').digest('hex');
+}
+
+export class Migrator {
+  constructor(
+    private readonly db: Database,
+    private readonly migrations: readonly Migration[] = defaultMigrations
+  ) {}
+
+  /**
+   * Compare known migrations with the steps recorded in the database
+   */
+  status(): Result<MigrationStatus[], string> {
+    const sequence = this.validateSequence();
+    if (!sequence.ok) {
+      return sequence;
+    }
+
+    try {
+      const applied = new Map(this.readApplied().map((row) => [row.version, row]));
+      const statuses: MigrationStatus[] = this.migrations.map((migration) => {
+        const checksum = migrationChecksum(migration);
+        const row = applied.get(migration.version);
+        applied.delete(migration.version);
+
+        if (!row) {
+          return { version: migration.version, name: migration.name, checksum, state: 'pending', appliedAt: null };
+        }
+
+        return {
+          version: migration.version,
+          name: migration.name,
+          checksum,
+          state: row.checksum === checksum ? 'applied' : 'modified',
+          appliedAt: row.applied_at,
+        };
+      });
+
+      // Steps recorded by a newer release that this build does not know about
+      for (const row of applied.values()) {
+        statuses.push({
+          version: row.version,
+          name: row.name,
+          checksum: row.checksum,
+          state: 'unknown',
+          appliedAt: row.applied_at,
+        });
+      }
+
+      return Ok(statuses.sort((a, b) => a.version - b.version));
+    } catch (error) {
+      return Err(`Failed to read migration status: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Ensure every applied step still matches its checksum and is known to this build
+   */
+  verify(): Result<MigrationStatus[], string> {
+    const statusResult = this.status();
+    if (!statusResult.ok) {
+      return statusResult;
+    }
+
+    const problems = statusResult.value
+      .filter((status) => status.state === 'modified' || status.state === 'unknown')
+      .map((status) =>
+        status.state === 'modified'
+          ? `migration ${status.version} (${status.name}) changed after it was applied`
+          : `migration ${status.version} (${status.name}) is applied but unknown to this build`
+      );
+
+    if (problems.length > 0) {
+      return Err(`Schema verification failed: ${problems.join('; ')}`);
+    }
+
+    return Ok(statusResult.value);
+  }
+
+  /**
+   * Apply all pending migrations in order
+   * Returns the steps applied by this call.
+   */
+  up(): Result<MigrationStatus[], string> {
+    const verifyResult = this.verify();
+    if (!verifyResult.ok) {
+      return verifyResult;
+    }
+
+    try {
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          checksum TEXT NOT NULL,
+          applied_at INTEGER NOT NULL
+        )
+      `);
+    } catch (error) {
+      return Err(`Failed to create schema_migrations: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const applied: MigrationStatus[] = [];
+    for (const status of verifyResult.value) {
+      if (status.state !== 'pending') {
+        continue;
+      }
+
+      const migration = this.migrations.find((m) => m.version === status.version);
+      if (!migration) {
+        return Err(`Migration ${status.version} not found`);
+      }
+
+      const result = this.apply(migration, status.checksum);
+      if (!result.ok) {
+        return result;
+      }
+
+      applied.push({ ...status, state: 'applied', appliedAt: result.value });
+    }
+
+    return Ok(applied);
+  }
+
+  private apply(migration: Migration, checksum: string): Result<number, string> {
+    const disableForeignKeys =
+      migration.foreignKeys === false && this.db.pragma('foreign_keys', { simple: true }) === 1;
+
+    // PRAGMA foreign_keys is a no-op inside a transaction, so toggle it around the step
+    if (disableForeignKeys) {
+      this.db.pragma('foreign_keys = OFF');
+    }
+
+    try {
+      const appliedAt = Date.now();
+
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+
+        if (migration.foreignKeys === false) {
+          const violations = this.db.pragma('foreign_key_check') as unknown[];
+          if (violations.length > 0) {
+            throw new Error(`${violations.length} foreign key violation(s)`);
+          }
+        }
+
+        this.db
+          .prepare(`
+            INSERT INTO schema_migrations (version, name, checksum, applied_at)
+            VALUES (@version, @name, @checksum, @appliedAt)
+          `)
+          .run({ version: migration.version, name: migration.name, checksum, appliedAt });
+      })();
+
+      return Ok(appliedAt);
+    } catch (error) {
+      return Err(
+        `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      if (disableForeignKeys) {
+        this.db.pragma('foreign_keys = ON');
+      }
+    }
+  }
+
+  private readApplied(): AppliedRow[] {
+    const table = this.db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'")
+      .get() as { name: string } | undefined;
+
+    if (!table) {
+      return [];
+    }
+
+    return this.db
+      .prepare('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version ASC')
+      .all() as AppliedRow[];
+  }
+
+  private validateSequence(): Result<void, string> {
+    for (const [index, migration] of this.migrations.entries()) {
+      if (migration.version !== index + 1) {
+        return Err(
+          `Migrations must be numbered sequentially from 1: found ${migration.version} (${migration.name}) at position ${index + 1}`
+        );
+      }
+    }
+    return Ok(undefined);
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Schedules repository - Recurring job templates
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { JobSpec, ScheduleRecord } from '../models/index.js';
+import { ScheduleRecordSchema } from '../models/index.js';
+import { Result, Ok, Err } from '../models/index.js';
+
+export interface ScheduleRow {
+  id: string;
+  name: string;
+  cron: string;
+  spec_json: string;
+  paused: number;
+  next_run_at: number | null;
+  last_run_at: number | null;
+  last_job_id: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+function rowToRecord(row: ScheduleRow): Result<ScheduleRecord, string> {
+  try {
+    const record: ScheduleRecord = {
+      id: row.id,
+      name: row.name,
+      cron: row.cron,
+      spec: JSON.parse(row.spec_json) as JobSpec,
+      paused: row.paused !== 0,
+      nextRunAt: row.next_run_at,
+      lastRunAt: row.last_run_at,
+      lastJobId: row.last_job_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+
+    const parsed = ScheduleRecordSchema.safeParse(record);
+    if (!parsed.success) {
+      return Err(`Invalid schedule record: ${parsed.error.message}`);
+    }
+
+    return Ok(parsed.data);
+  } catch (error) {
+    return Err(`Failed to parse schedule row: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function rowsToRecords(rows: ScheduleRow[]): Result<ScheduleRecord[], string> {
+  const records: ScheduleRecord[] = [];
+  for (const row of rows) {
+    const result = rowToRecord(row);
+    if (!result.ok) {
+      return result;
+    }
+    records.push(result.value);
+  }
+  return Ok(records);
+}
+
+export interface CreateScheduleParams {
+  id: string;
+  spec: JobSpec;
+  cron: string;
+  nextRunAt: number | null;
+}
+
+export interface AdvanceScheduleParams {
+  id: string;
+  /** Compare-and-set: only advance while next_run_at is still this tick */
+  expectedNextRunAt: number;
+  nextRunAt: number | null;
+  lastJobId: string;
+}
+
+export class SchedulesRepository {
+  constructor(private readonly db: Database) {}
+
+  create(params: CreateScheduleParams): Result<ScheduleRecord, string> {
+    const now = Date.now();
+
+    try {
+      this.db.prepare(`
+        INSERT INTO schedules (id, name, cron, spec_json, next_run_at, created_at, updated_at)
+        VALUES (@id, @name, @cron, @specJson, @nextRunAt, @now, @now)
+      `).run({
+        id: params.id,
+        name: params.spec.idempotencyKey,
+        cron: params.cron,
+        specJson: JSON.stringify(params.spec),
+        nextRunAt: params.nextRunAt,
+        now,
+      });
+
+      return this.getById(params.id);
+    } catch (error) {
+      return Err(`Failed to create schedule: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  getById(id: string): Result<ScheduleRecord, string> {
+    const row = this.db.prepare('SELECT * FROM schedules WHERE id = ?').get(id) as ScheduleRow | undefined;
+
+    if (!row) {
+      return Err(`Schedule not found: ${id}`);
+    }
+
+    return rowToRecord(row);
+  }
+
+  getByName(name: string): Result<ScheduleRecord | null, string> {
+    const row = this.db.prepare('SELECT * FROM schedules WHERE name = ?').get(name) as ScheduleRow | undefined;
+
+    if (!row) {
+      return Ok(null);
+    }
+
+    return rowToRecord(row);
+  }
+
+  list(filters: { limit: number; offset: number }): Result<ScheduleRecord[], string> {
+    const rows = this.db.prepare(`
+      SELECT * FROM schedules
+      ORDER BY name ASC
+      LIMIT ? OFFSET ?
+    `).all(filters.limit, filters.offset) as ScheduleRow[];
+
+    return rowsToRecords(rows);
+  }
+
+  count(): number {
+    const result = this.db.prepare('SELECT COUNT(*) as count FROM schedules').get() as { count: number };
+    return result.count;
+  }
+
+  /**
+   * Active schedules whose next run is at or before `now`
+   */
+  listDue(now: number): Result<ScheduleRecord[], string> {
+    const rows = this.db.prepare(`
+      SELECT * FROM schedules
+      WHERE paused = 0
+        AND next_run_at IS NOT NULL
+        AND next_run_at <= ?
+      ORDER BY next_run_at ASC
+    `).all(now) as ScheduleRow[];
+
+    return rowsToRecords(rows);
+  }
+
+  /**
+   * Pause or resume; resuming sets the next run so missed ticks are skipped
+   */
+  setPaused(id: string, paused: boolean, nextRunAt: number | null): Result<boolean, string> {
+    try {
+      const result = this.db.prepare(`
+        UPDATE schedules
+        SET paused = @paused,
+            next_run_at = CASE WHEN @paused = 1 THEN next_run_at ELSE @nextRunAt END,
+            updated_at = @now
+        WHERE id = @id
+      `).run({ id, paused: paused ? 1 : 0, nextRunAt, now: Date.now() });
+
+      return Ok(result.changes > 0);
+    } catch (error) {
+      return Err(`Failed to update schedule: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Record a materialized tick and move to the next one
+   * Returns false when another scheduler already advanced past expectedNextRunAt.
+   */
+  advance(params: AdvanceScheduleParams): Result<boolean, string> {
+    try {
+      const now = Date.now();
+      const result = this.db.prepare(`
+        UPDATE schedules
+        SET next_run_at = @nextRunAt,
+            last_run_at = @lastRunAt,
+            last_job_id = @lastJobId,
+            updated_at = @now
+        WHERE id = @id
+          AND next_run_at = @expectedNextRunAt
+      `).run({
+        id: params.id,
+        expectedNextRunAt: params.expectedNextRunAt,
+        nextRunAt: params.nextRunAt,
+        lastRunAt: params.expectedNextRunAt,
+        lastJobId: params.lastJobId,
+        now,
+      });
+
+      return Ok(result.changes > 0);
+    } catch (error) {
+      return Err(`Failed to advance schedule: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  delete(id: string): Result<boolean, string> {
+    try {
+      const result = this.db.prepare('DELETE FROM schedules WHERE id = ?').run(id);
+      return Ok(result.changes > 0);
+    } catch (error) {
+      return Err(`Failed to delete schedule: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
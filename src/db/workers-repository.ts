@@ -0,0 +1,209 @@
+/**
+ * Workers repository - Registry of worker loops and their liveness
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { WorkerRecord, WorkerState } from '../models/index.js';
+import { WorkerRecordSchema } from '../models/index.js';
+import { Result, Ok, Err } from '../models/index.js';
+
+export interface WorkerRow {
+  id: string;
+  host: string;
+  pid: number;
+  executors_json: string;
+  state: string;
+  current_job_id: string | null;
+  current_job_started_at: number | null;
+  attempts_started: number;
+  attempts_succeeded: number;
+  attempts_failed: number;
+  started_at: number;
+  heartbeat_at: number;
+  stopped_at: number | null;
+}
+
+function rowToRecord(row: WorkerRow): Result<WorkerRecord, string> {
+  try {
+    const record = {
+      id: row.id,
+      host: row.host,
+      pid: row.pid,
+      executors: JSON.parse(row.executors_json) as string[],
+      state: row.state,
+      currentJobId: row.current_job_id,
+      currentJobStartedAt: row.current_job_started_at,
+      attemptsStarted: row.attempts_started,
+      attemptsSucceeded: row.attempts_succeeded,
+      attemptsFailed: row.attempts_failed,
+      startedAt: row.started_at,
+      heartbeatAt: row.heartbeat_at,
+      stoppedAt: row.stopped_at,
+    };
+
+    const parsed = WorkerRecordSchema.safeParse(record);
+    if (!parsed.success) {
+      return Err(`Invalid worker record: ${parsed.error.message}`);
+    }
+
+    return Ok(parsed.data);
+  } catch (error) {
+    return Err(`Failed to parse worker row: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export interface RegisterWorkerParams {
+  id: string;
+  host: string;
+  pid: number;
+  executors: readonly string[];
+}
+
+export class WorkersRepository {
+  constructor(private readonly db: Database) {}
+
+  register(params: RegisterWorkerParams): Result<void, string> {
+    const now = Date.now();
+
+    try {
+      this.db.prepare(`
+        INSERT INTO workers (id, host, pid, executors_json, state, started_at, heartbeat_at)
+        VALUES (@id, @host, @pid, @executorsJson, 'IDLE', @now, @now)
+      `).run({
+        id: params.id,
+        host: params.host,
+        pid: params.pid,
+        executorsJson: JSON.stringify(params.executors),
+        now,
+      });
+
+      return Ok(undefined);
+    } catch (error) {
+      return Err(`Failed to register worker: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  heartbeat(id: string): Result<void, string> {
+    try {
+      this.db.prepare('UPDATE workers SET heartbeat_at = ? WHERE id = ?').run(Date.now(), id);
+      return Ok(undefined);
+    } catch (error) {
+      return Err(`Failed to record worker heartbeat: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  startAttempt(id: string, jobId: string): Result<void, string> {
+    const now = Date.now();
+
+    try {
+      this.db.prepare(`
+        UPDATE workers
+        SET state = CASE WHEN state = 'DRAINING' THEN state ELSE 'BUSY' END,
+            current_job_id = @jobId,
+            current_job_started_at = @now,
+            attempts_started = attempts_started + 1,
+            heartbeat_at = @now
+        WHERE id = @id
+      `).run({ id, jobId, now });
+
+      return Ok(undefined);
+    } catch (error) {
+      return Err(`Failed to record worker attempt: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  finishAttempt(id: string, succeeded: boolean): Result<void, string> {
+    try {
+      this.db.prepare(`
+        UPDATE workers
+        SET state = CASE WHEN state = 'BUSY' THEN 'IDLE' ELSE state END,
+            current_job_id = NULL,
+            current_job_started_at = NULL,
+            attempts_succeeded = attempts_succeeded + @succeeded,
+            attempts_failed = attempts_failed + @failed,
+            heartbeat_at = @now
+        WHERE id = @id
+      `).run({ id, succeeded: succeeded ? 1 : 0, failed: succeeded ? 0 : 1, now: Date.now() });
+
+      return Ok(undefined);
+    } catch (error) {
+      return Err(`Failed to record worker attempt: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  setState(id: string, state: WorkerState): Result<void, string> {
+    const now = Date.now();
+
+    try {
+      this.db.prepare(`
+        UPDATE workers
+        SET state = @state,
+            heartbeat_at = @now,
+            stopped_at = CASE WHEN @state = 'STOPPED' THEN @now ELSE stopped_at END
+        WHERE id = @id
+      `).run({ id, state, now });
+
+      return Ok(undefined);
+    } catch (error) {
+      return Err(`Failed to update worker: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  getById(id: string): Result<WorkerRecord, string> {
+    const row = this.db.prepare('SELECT * FROM workers WHERE id = ?').get(id) as WorkerRow | undefined;
+
+    if (!row) {
+      return Err(`Worker not found: ${id}`);
+    }
+
+    return rowToRecord(row);
+  }
+
+  /**
+   * Most recently seen first
+   */
+  list(filters: { includeStopped: boolean; limit: number; offset: number }): Result<WorkerRecord[], string> {
+    const rows = this.db.prepare(`
+      SELECT * FROM workers
+      WHERE @includeStopped = 1 OR state != 'STOPPED'
+      ORDER BY heartbeat_at DESC, id ASC
+      LIMIT @limit OFFSET @offset
+    `).all({
+      includeStopped: filters.includeStopped ? 1 : 0,
+      limit: filters.limit,
+      offset: filters.offset,
+    }) as WorkerRow[];
+
+    const records: WorkerRecord[] = [];
+    for (const row of rows) {
+      const result = rowToRecord(row);
+      if (!result.ok) {
+        return result;
+      }
+      records.push(result.value);
+    }
+
+    return Ok(records);
+  }
+
+  count(includeStopped: boolean): number {
+    const result = this.db.prepare(`
+      SELECT COUNT(*) as count FROM workers
+      WHERE ? = 1 OR state != 'STOPPED'
+    `).get(includeStopped ? 1 : 0) as { count: number };
+
+    return result.count;
+  }
+
+  /**
+   * Delete workers not heard from since `before`, stopped or not
+   */
+  prune(before: number): Result<number, string> {
+    try {
+      const result = this.db.prepare('DELETE FROM workers WHERE heartbeat_at < ?').run(before);
+      return Ok(result.changes);
+    } catch (error) {
+      return Err(`Failed to prune workers: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -2,7 +2,7 @@
  * Base executor interface
  */
 
-import type { JobSpec } from '../models/index.js';
+import type { FailReason, JobSpec } from '../models/index.js';
 import type { Result } from '../models/index.js';
 
 export interface ExecutorOutput {
@@ -15,9 +15,25 @@ export interface ExecutorOutput {
 export interface ExecutorContext {
   workDir: string;
   timeoutMs?: number;
+  /** Aborted when the job is canceled or its lease is lost; executors must stop promptly */
+  signal?: AbortSignal;
+  /** Ask SDK variables (TASK_RELAY_JOB_ID, TASK_RELAY_STEP_ID, ASK_ANSWER_ORIGIN, ...) for the agent */
+  env?: Record<string, string>;
+}
+
+/**
+ * Why an executor run failed; reasonCode drives retries and fallback
+ */
+export interface ExecutorError {
+  reasonCode: FailReason;
+  message: string;
+}
+
+export function executorError(reasonCode: FailReason, message: string): ExecutorError {
+  return { reasonCode, message };
 }
 
 export interface Executor {
   readonly name: string;
-  execute(spec: JobSpec, context: ExecutorContext): Promise<Result<ExecutorOutput, string>>;
+  execute(spec: JobSpec, context: ExecutorContext): Promise<Result<ExecutorOutput, ExecutorError>>;
 }
@@ -4,7 +4,8 @@
  */
 
 import { execa } from 'execa';
-import type { Executor, ExecutorOutput, ExecutorContext } from './base.js';
+import type { Executor, ExecutorOutput, ExecutorContext, ExecutorError } from './base.js';
+import { executorError } from './base.js';
 import type { JobSpec } from '../models/index.js';
 import { Result, Ok, Err } from '../models/index.js';
 
@@ -85,7 +86,7 @@ export class ClaudeCodeExecutor implements Executor {
     return parts.join('\n');
   }
 
-  private parseOutput(rawOutput: string): Result<ExecutorOutput, string> {
+  private parseOutput(rawOutput: string): Result<ExecutorOutput, ExecutorError> {
     // Try to extract sections from Claude's response
     const diffMatch = /### DIFF\s*\n```diff\s*\n([\s\S]*?)\n```/i.exec(rawOutput) ||
                       /### DIFF\s*\n([\s\S]*?)(?=\n### |$)/i.exec(rawOutput);
@@ -95,7 +96,10 @@ export class ClaudeCodeExecutor implements Executor {
 
     if (!diffMatch || !testPlanMatch || !notesMatch) {
       return Err(
-        'Output missing required sections. Expected ### DIFF, ### TEST_PLAN, and ### NOTES'
+        executorError(
+          'BAD_ARTIFACTS',
+          'Output missing required sections. Expected ### DIFF, ### TEST_PLAN, and ### NOTES'
+        )
       );
     }
 
@@ -110,7 +114,7 @@ export class ClaudeCodeExecutor implements Executor {
   async execute(
     spec: JobSpec,
     context: ExecutorContext
-  ): Promise<Result<ExecutorOutput, string>> {
+  ): Promise<Result<ExecutorOutput, ExecutorError>> {
     try {
       const prompt = this.buildPrompt(spec);
 
@@ -125,7 +129,9 @@ export class ClaudeCodeExecutor implements Executor {
 
       const execOptions: {
         cwd: string;
+        env?: Record<string, string>;
         timeout?: number;
+        cancelSignal?: AbortSignal;
         reject: boolean;
         all: boolean;
       } = {
@@ -138,11 +144,30 @@ export class ClaudeCodeExecutor implements Executor {
         execOptions.timeout = context.timeoutMs;
       }
 
+      if (context.signal !== undefined) {
+        execOptions.cancelSignal = context.signal;
+      }
+
+      if (context.env !== undefined) {
+        execOptions.env = context.env;
+      }
+
       const result = await execa(this.config.binary, args, execOptions);
 
+      if (result.isCanceled) {
+        return Err(executorError('EXECUTOR_ERROR', 'Executor canceled'));
+      }
+
+      if (result.timedOut) {
+        return Err(executorError('TIMEOUT', 'Executor timeout exceeded'));
+      }
+
       if (result.exitCode !== 0) {
         return Err(
-          `Claude Code failed with exit code ${result.exitCode}: ${result.all ?? result.stderr}`
+          executorError(
+            'EXECUTOR_ERROR',
+            `Claude Code failed with exit code ${result.exitCode}: ${result.all ?? result.stderr}`
+          )
         );
       }
 
@@ -150,10 +175,13 @@ export class ClaudeCodeExecutor implements Executor {
       return this.parseOutput(output);
     } catch (error) {
       if (error && typeof error === 'object' && 'killed' in error && error.killed) {
-        return Err('Executor timeout exceeded');
+        return Err(executorError('TIMEOUT', 'Executor timeout exceeded'));
       }
       return Err(
-        `Executor failed: ${error instanceof Error ? error.message : String(error)}`
+        executorError(
+          'EXECUTOR_ERROR',
+          `Executor failed: ${error instanceof Error ? error.message : String(error)}`
+        )
       );
     }
   }
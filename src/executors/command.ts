@@ -0,0 +1,160 @@
+/**
+ * Generic command executor
+ * Runs any local agent CLI described in executors.yaml
+ */
+
+import { execa } from 'execa';
+import type { Executor, ExecutorOutput, ExecutorContext, ExecutorError } from './base.js';
+import { executorError } from './base.js';
+import { buildTaskPrompt, parseSectionedOutput, parseNotesSections } from './prompt.js';
+import type { CommandExecutorConfig } from '../config/schema.js';
+import type { JobSpec } from '../models/index.js';
+import { Result, Ok, Err } from '../models/index.js';
+
+/**
+ * Substitute {prompt}, {model} and {workdir} in each argument
+ */
+export function renderCommandArgs(
+  template: readonly string[],
+  values: { prompt: string; model: string; workdir: string }
+): string[] {
+  return template.map((arg) =>
+    arg.replace(/\{(prompt|model|workdir)\}/g, (_match, key: 'prompt' | 'model' | 'workdir') => values[key])
+  );
+}
+
+export class CommandExecutor implements Executor {
+  readonly name: string;
+
+  constructor(private readonly config: CommandExecutorConfig) {
+    this.name = config.name;
+  }
+
+  async execute(
+    spec: JobSpec,
+    context: ExecutorContext
+  ): Promise<Result<ExecutorOutput, ExecutorError>> {
+    try {
+      const prompt = buildTaskPrompt(spec, this.config.parser === 'git-diff' ? 'edit' : 'sections');
+      const model = spec.execution.preferredModel || this.config.defaultModel;
+
+      const args = renderCommandArgs(this.config.args, {
+        prompt: this.config.promptInput === 'argv' ? prompt : '',
+        model,
+        workdir: context.workDir,
+      });
+
+      const execOptions: {
+        cwd: string;
+        env: Record<string, string>;
+        input?: string;
+        timeout?: number;
+        cancelSignal?: AbortSignal;
+        reject: boolean;
+        all: boolean;
+      } = {
+        cwd: context.workDir,
+        env: { ...context.env, ...this.config.env },
+        reject: false,
+        all: true,
+      };
+
+      if (this.config.promptInput === 'stdin') {
+        execOptions.input = prompt;
+      }
+
+      if (context.timeoutMs !== undefined) {
+        execOptions.timeout = context.timeoutMs;
+      }
+
+      if (context.signal !== undefined) {
+        execOptions.cancelSignal = context.signal;
+      }
+
+      // The diff is taken against HEAD before the run: the baseline, plus any applied parent patches
+      const base =
+        this.config.parser === 'git-diff'
+          ? (await execa('git', ['rev-parse', 'HEAD'], { cwd: context.workDir })).stdout.trim()
+          : '';
+
+      const result = await execa(this.config.binary, args, execOptions);
+
+      if (result.isCanceled) {
+        return Err(executorError('EXECUTOR_ERROR', 'Executor canceled'));
+      }
+
+      if (result.timedOut) {
+        return Err(executorError('TIMEOUT', 'Executor timeout exceeded'));
+      }
+
+      if (result.exitCode !== 0) {
+        return Err(
+          executorError(
+            'EXECUTOR_ERROR',
+            `${this.name} failed with exit code ${result.exitCode}: ${result.all ?? result.stderr}`
+          )
+        );
+      }
+
+      const output = result.all ?? result.stdout;
+
+      switch (this.config.parser) {
+        case 'sections':
+          return parseSectionedOutput(output);
+        case 'diff':
+          return this.parseDiffOutput(output);
+        case 'git-diff':
+          return await this.collectWorkingCopyDiff(output, base, context);
+      }
+    } catch (error) {
+      return Err(
+        executorError(
+          'EXECUTOR_ERROR',
+          `Executor failed: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+    }
+  }
+
+  /**
+   * The whole output is a unified diff
+   */
+  private parseDiffOutput(rawOutput: string): Result<ExecutorOutput, ExecutorError> {
+    const diff = rawOutput.trim();
+    if (!/^(diff --git |--- )/m.test(diff)) {
+      return Err(executorError('BAD_ARTIFACTS', 'Output is not a unified diff'));
+    }
+
+    return Ok({ diff, testPlan: '', notes: '', rawOutput });
+  }
+
+  /**
+   * The agent edited the working copy: diff it against the base, then restore the base so the
+   * worker can validate the patch on a clean tree
+   */
+  private async collectWorkingCopyDiff(
+    rawOutput: string,
+    base: string,
+    context: ExecutorContext
+  ): Promise<Result<ExecutorOutput, ExecutorError>> {
+    const git = { cwd: context.workDir, reject: false, ...(context.signal ? { cancelSignal: context.signal } : {}) };
+
+    // Include new files, and anything the agent committed despite the prompt
+    await execa('git', ['add', '--intent-to-add', '--all'], git);
+    const diffResult = await execa('git', ['diff', '--binary', base], git);
+    if (diffResult.exitCode !== 0) {
+      return Err(executorError('EXECUTOR_ERROR', `git diff failed: ${diffResult.stderr}`));
+    }
+
+    await execa('git', ['reset', '--hard', base], git);
+    await execa('git', ['clean', '-fdq'], git);
+
+    if (diffResult.stdout.trim().length === 0) {
+      return Err(executorError('BAD_ARTIFACTS', `${this.name} made no changes`));
+    }
+
+    // execa strips the final newline, which git apply requires
+    const { testPlan, notes } = parseNotesSections(rawOutput);
+    return Ok({ diff: `${diffResult.stdout}\n`, testPlan, notes, rawOutput });
+  }
+}
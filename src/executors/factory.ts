@@ -1,43 +1,172 @@
 /**
- * Executor factory
+ * Executor factory and model-aware routing
  */
 
-import type { Executor } from './base.js';
+import type { Executor, ExecutorError } from './base.js';
 import { CodexCliExecutor } from './codex-cli.js';
 import { ClaudeCodeExecutor } from './claude-code.js';
+import { CommandExecutor } from './command.js';
+import { OpenAICompatibleExecutor } from './openai-compatible.js';
+import { MockExecutor } from './mock.js';
 import type { Config } from '../config/index.js';
+import type { Execution } from '../models/index.js';
+import { Result, Ok, Err } from '../models/index.js';
 
-export function createExecutors(config: Config): Executor[] {
-  const executors: Executor[] = [];
+/**
+ * An enabled executor and the model names it serves
+ */
+export interface ExecutorRoute {
+  readonly executor: Executor;
+  /** Globs (`*`, `?`) matched case-insensitively against execution.preferredModel */
+  readonly modelPatterns: readonly string[];
+}
+
+export function createExecutors(config: Config): ExecutorRoute[] {
+  const routes: ExecutorRoute[] = [];
 
   if (config.executors.codexCli.enabled) {
-    executors.push(
-      new CodexCliExecutor({
+    routes.push({
+      executor: new CodexCliExecutor({
         binary: config.executors.codexCli.binary,
         defaultModel: config.executors.codexCli.defaultModel,
         enableSearch: config.executors.codexCli.enableSearch,
-      })
-    );
+      }),
+      modelPatterns: config.executors.codexCli.modelPatterns,
+    });
   }
 
   if (config.executors.claudeCode.enabled) {
-    executors.push(
-      new ClaudeCodeExecutor({
+    routes.push({
+      executor: new ClaudeCodeExecutor({
         binary: config.executors.claudeCode.binary,
         defaultModel: config.executors.claudeCode.defaultModel,
-      })
-    );
+      }),
+      modelPatterns: config.executors.claudeCode.modelPatterns,
+    });
+  }
+
+  if (config.executors.openaiCompatible.enabled) {
+    const { openaiCompatible } = config.executors;
+    routes.push({
+      executor: new OpenAICompatibleExecutor({
+        baseUrl: openaiCompatible.baseUrl,
+        defaultModel: openaiCompatible.defaultModel,
+        ...(openaiCompatible.apiKey !== undefined ? { apiKey: openaiCompatible.apiKey } : {}),
+        ...(openaiCompatible.temperature !== undefined ? { temperature: openaiCompatible.temperature } : {}),
+        ...(openaiCompatible.maxTokens !== undefined ? { maxTokens: openaiCompatible.maxTokens } : {}),
+      }),
+      modelPatterns: openaiCompatible.modelPatterns,
+    });
+  }
+
+  if (config.executors.mock.enabled) {
+    routes.push({
+      executor: new MockExecutor(config.executors.mock.fixtures),
+      modelPatterns: config.executors.mock.modelPatterns,
+    });
+  }
+
+  for (const command of config.executors.commands) {
+    routes.push({
+      executor: new CommandExecutor(command),
+      modelPatterns: command.modelPatterns,
+    });
+  }
+
+  return routes;
+}
+
+export function matchesModelPattern(model: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`, 'i').test(model);
+}
+
+function servesModel(route: ExecutorRoute, model: string): boolean {
+  return route.modelPatterns.some((pattern) => matchesModelPattern(model, pattern));
+}
+
+/**
+ * Pick the executor for a job
+ * An explicit execution.executor wins; otherwise the first route whose patterns match
+ * preferredModel. An empty preferredModel falls back to the first route.
+ */
+export function selectExecutor(
+  routes: readonly ExecutorRoute[],
+  execution: Pick<Execution, 'preferredModel' | 'executor'>
+): Result<Executor, string> {
+  const [firstRoute] = routes;
+  if (!firstRoute) {
+    return Err('No executors are enabled');
+  }
+
+  if (execution.executor !== undefined) {
+    const route = routes.find((r) => r.executor.name === execution.executor);
+    if (!route) {
+      const enabled = routes.map((r) => r.executor.name).join(', ');
+      return Err(`Executor '${execution.executor}' is not enabled (enabled: ${enabled})`);
+    }
+    return Ok(route.executor);
+  }
+
+  const model = execution.preferredModel.trim();
+  if (model.length === 0) {
+    return Ok(firstRoute.executor);
+  }
+
+  const route = routes.find((r) => servesModel(r, model));
+  if (!route) {
+    return Err(`No enabled executor serves model '${model}'`);
   }
 
-  return executors;
+  return Ok(route.executor);
 }
 
-export function selectExecutor(executors: Executor[], _preferredModel?: string): Executor | null {
-  if (executors.length === 0) {
-    return null;
+/**
+ * The model an executor runs a job with: preferredModel when the executor's patterns match it,
+ * otherwise '' so the executor uses its own defaultModel. This keeps a model meant for one
+ * executor away from another, e.g. an explicit execution.executor or a fallback hop.
+ */
+export function resolveModel(routes: readonly ExecutorRoute[], executor: Executor, preferredModel: string): string {
+  const model = preferredModel.trim();
+  const route = routes.find((r) => r.executor === executor);
+  return route && model.length > 0 && servesModel(route, model) ? model : '';
+}
+
+/**
+ * The routed executor followed by the enabled executors of the fallback list
+ * Names that are not enabled, or repeat an earlier entry, are skipped.
+ */
+export function resolveExecutorChain(
+  routes: readonly ExecutorRoute[],
+  primary: Executor,
+  fallback: readonly string[]
+): Executor[] {
+  const chain: Executor[] = [primary];
+
+  for (const name of fallback) {
+    if (chain.some((executor) => executor.name === name)) {
+      continue;
+    }
+    const route = routes.find((r) => r.executor.name === name);
+    if (route) {
+      chain.push(route.executor);
+    }
   }
 
-  // Simple selection: use first available
-  // In future, could route based on model name patterns
-  return executors[0] ?? null;
+  return chain;
+}
+
+/**
+ * Only failures another executor could plausibly fix move down the chain
+ */
+export function shouldFallback(error: ExecutorError): boolean {
+  return error.reasonCode === 'BAD_ARTIFACTS' || error.reasonCode === 'EXECUTOR_ERROR';
 }
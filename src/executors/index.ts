@@ -5,4 +5,8 @@
 export * from './base.js';
 export * from './codex-cli.js';
 export * from './claude-code.js';
+export * from './command.js';
+export * from './openai-compatible.js';
+export * from './mock.js';
+export * from './prompt.js';
 export * from './factory.js';
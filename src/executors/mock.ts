@@ -0,0 +1,103 @@
+/**
+ * Mock executor
+ * Replays scripted fixtures so the worker pipeline can run hermetically in tests and CI
+ */
+
+import type { Executor, ExecutorOutput, ExecutorContext, ExecutorError } from './base.js';
+import { executorError } from './base.js';
+import type { MockFixture } from '../config/schema.js';
+import type { JobSpec } from '../models/index.js';
+import { Result, Ok, Err } from '../models/index.js';
+import { ask } from '../sdk/index.js';
+
+/**
+ * Resolves after ms, or early with false when the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function findMockFixture(fixtures: readonly MockFixture[], spec: JobSpec): MockFixture | undefined {
+  return (
+    fixtures.find((fixture) => fixture.idempotencyKey === spec.idempotencyKey) ??
+    fixtures.find((fixture) => fixture.taskTitle === spec.task.title) ??
+    fixtures.find((fixture) => fixture.idempotencyKey === undefined && fixture.taskTitle === undefined)
+  );
+}
+
+export class MockExecutor implements Executor {
+  readonly name = 'mock';
+
+  /** Runs per fixture, for failFirst */
+  private readonly runs = new Map<MockFixture, number>();
+
+  constructor(private readonly fixtures: readonly MockFixture[]) {}
+
+  async execute(
+    spec: JobSpec,
+    context: ExecutorContext
+  ): Promise<Result<ExecutorOutput, ExecutorError>> {
+    const fixture = findMockFixture(this.fixtures, spec);
+    if (!fixture) {
+      return Err(
+        executorError('EXECUTOR_ERROR', `No mock fixture for idempotency key '${spec.idempotencyKey}'`)
+      );
+    }
+
+    const run = (this.runs.get(fixture) ?? 0) + 1;
+    this.runs.set(fixture, run);
+
+    if (!(await delay(fixture.delayMs, context.signal))) {
+      return Err(executorError('EXECUTOR_ERROR', 'Executor canceled'));
+    }
+
+    const transcript: string[] = [`mock run ${run} for ${spec.idempotencyKey}`];
+
+    if (fixture.ask) {
+      try {
+        const answer = await ask(fixture.ask.type, fixture.ask.prompt, {
+          env: { ...process.env, ...context.env },
+          ...(fixture.ask.roleId !== undefined ? { role_id: fixture.ask.roleId } : {}),
+          ...(fixture.ask.allowedTools !== undefined ? { allowed_tools: fixture.ask.allowedTools } : {}),
+        });
+        transcript.push(`ask answered: ${answer.json !== undefined ? JSON.stringify(answer.json) : answer.text ?? ''}`);
+      } catch (error) {
+        return Err(
+          executorError('EXECUTOR_ERROR', `Ask failed: ${error instanceof Error ? error.message : String(error)}`)
+        );
+      }
+    }
+
+    if (run <= fixture.failFirst || fixture.result === 'failure') {
+      return Err(executorError(fixture.failure.reasonCode, fixture.failure.message));
+    }
+
+    if (fixture.result === 'timeout') {
+      // Hold until the job's timeout, as a hung agent would
+      if (context.timeoutMs !== undefined && !(await delay(context.timeoutMs, context.signal))) {
+        return Err(executorError('EXECUTOR_ERROR', 'Executor canceled'));
+      }
+      return Err(executorError('TIMEOUT', 'Executor timeout exceeded'));
+    }
+
+    return Ok({
+      ...fixture.output,
+      rawOutput: transcript.join('\n'),
+    });
+  }
+}
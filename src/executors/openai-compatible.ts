@@ -0,0 +1,107 @@
+/**
+ * OpenAI-compatible HTTP executor
+ * Sends the Codex-style prompt to any /v1/chat/completions endpoint (llama.cpp, vLLM, Ollama, ...)
+ */
+
+import { z } from 'zod';
+import type { Executor, ExecutorOutput, ExecutorContext, ExecutorError } from './base.js';
+import { executorError } from './base.js';
+import { buildTaskPrompt, parseSectionedOutput } from './prompt.js';
+import type { JobSpec } from '../models/index.js';
+import { Result, Err } from '../models/index.js';
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+const ChatCompletionResponseSchema = z.object({
+  choices: z
+    .array(
+      z.object({
+        message: z.object({
+          content: z.string().nullable(),
+        }),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * Accepts both http://host:port and http://host:port/v1 as the base URL
+ */
+export function chatCompletionsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.replace(/\/+$/, '');
+  return trimmed.endsWith('/v1') ? `${trimmed}/chat/completions` : `${trimmed}/v1/chat/completions`;
+}
+
+export class OpenAICompatibleExecutor implements Executor {
+  readonly name = 'openai-compatible';
+
+  constructor(private readonly config: OpenAICompatibleConfig) {}
+
+  async execute(
+    spec: JobSpec,
+    context: ExecutorContext
+  ): Promise<Result<ExecutorOutput, ExecutorError>> {
+    const signals: AbortSignal[] = [];
+    if (context.signal !== undefined) {
+      signals.push(context.signal);
+    }
+    if (context.timeoutMs !== undefined) {
+      signals.push(AbortSignal.timeout(context.timeoutMs));
+    }
+
+    try {
+      const body = {
+        model: spec.execution.preferredModel || this.config.defaultModel,
+        messages: [{ role: 'user', content: buildTaskPrompt(spec) }],
+        stream: false,
+        ...(this.config.temperature !== undefined ? { temperature: this.config.temperature } : {}),
+        ...(this.config.maxTokens !== undefined ? { max_tokens: this.config.maxTokens } : {}),
+      };
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (this.config.apiKey) {
+        headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+      }
+
+      const response = await fetch(chatCompletionsUrl(this.config.baseUrl), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        ...(signals.length > 0 ? { signal: AbortSignal.any(signals) } : {}),
+      });
+
+      const text = await response.text();
+      if (!response.ok) {
+        return Err(
+          executorError('EXECUTOR_ERROR', `Chat completion failed with HTTP ${response.status}: ${text.slice(0, 500)}`)
+        );
+      }
+
+      const parsed = ChatCompletionResponseSchema.safeParse(JSON.parse(text));
+      if (!parsed.success) {
+        return Err(executorError('BAD_ARTIFACTS', `Unexpected chat completion response: ${parsed.error.message}`));
+      }
+
+      return parseSectionedOutput(parsed.data.choices[0]?.message.content ?? '');
+    } catch (error) {
+      if (context.signal?.aborted) {
+        return Err(executorError('EXECUTOR_ERROR', 'Executor canceled'));
+      }
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        return Err(executorError('TIMEOUT', 'Executor timeout exceeded'));
+      }
+      return Err(
+        executorError(
+          'EXECUTOR_ERROR',
+          `Executor failed: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Shared prompt building and output parsing for CLI executors
+ * Prompts ask for ### DIFF, ### TEST_PLAN and ### NOTES sections.
+ */
+
+import type { ExecutorOutput, ExecutorError } from './base.js';
+import { executorError } from './base.js';
+import type { JobSpec } from '../models/index.js';
+import { Result, Ok, Err } from '../models/index.js';
+
+/**
+ * sections: the agent prints its diff; edit: the agent edits the working copy and the diff is
+ * collected with git afterwards
+ */
+export type PromptMode = 'sections' | 'edit';
+
+export function buildTaskPrompt(spec: JobSpec, mode: PromptMode = 'sections'): string {
+  const parts: string[] = [];
+
+  // Task description
+  parts.push('# Task');
+  parts.push(spec.task.title);
+  parts.push('');
+  parts.push(spec.task.description);
+  parts.push('');
+
+  // Acceptance criteria
+  if (spec.task.acceptance.length > 0) {
+    parts.push('## Acceptance Criteria');
+    spec.task.acceptance.forEach((criterion, i) => {
+      parts.push(`${i + 1}. ${criterion}`);
+    });
+    parts.push('');
+  }
+
+  // Scope constraints
+  parts.push('## Scope');
+  parts.push(`Read paths: ${spec.scope.readPaths.join(', ')}`);
+  if (spec.scope.fileGlobs && spec.scope.fileGlobs.length > 0) {
+    parts.push(`File globs: ${spec.scope.fileGlobs.join(', ')}`);
+  }
+  if (spec.scope.disallowReformatting) {
+    parts.push('⚠️ Do not reformat existing code');
+  }
+  parts.push('');
+
+  // Output requirements
+  parts.push('## Output Requirements');
+  if (mode === 'edit') {
+    parts.push('Make your changes by editing files in the working copy; they are collected with git diff.');
+    parts.push('Then print exactly TWO sections:');
+  } else {
+    parts.push('You MUST provide your output in exactly THREE sections:');
+    parts.push('');
+    parts.push('### DIFF');
+    parts.push('Complete unified diff of all changes. Use proper git diff format.');
+  }
+  parts.push('');
+  parts.push('### TEST_PLAN');
+  parts.push('Detailed test plan describing how to validate the changes.');
+  parts.push('');
+  parts.push('### NOTES');
+  parts.push('Implementation notes, decisions made, and any caveats.');
+  parts.push('');
+
+  // Context snippets if provided
+  if (spec.context?.codeSnippets && spec.context.codeSnippets.length > 0) {
+    parts.push('## Relevant Code Context');
+    for (const snippet of spec.context.codeSnippets) {
+      parts.push(`\`${snippet.path}\` lines ${snippet.from}-${snippet.to}`);
+    }
+    parts.push('');
+  }
+
+  // Guardrails
+  parts.push('## Constraints');
+  if (mode === 'edit') {
+    parts.push('- Only edit files inside the working copy; do not commit');
+  } else {
+    parts.push('- Read-only sandbox: you can read files but not write directly');
+  }
+  parts.push('- Only use trusted commands');
+  parts.push('- Generate output in the required format above');
+  parts.push(`- Baseline commit: ${spec.repo.baselineCommit}`);
+
+  return parts.join('\n');
+}
+
+export function parseSectionedOutput(rawOutput: string): Result<ExecutorOutput, ExecutorError> {
+  const diffMatch = /### DIFF\s*\n([\s\S]*?)(?=\n### |$)/i.exec(rawOutput);
+  const testPlanMatch = /### TEST_PLAN\s*\n([\s\S]*?)(?=\n### |$)/i.exec(rawOutput);
+  const notesMatch = /### NOTES\s*\n([\s\S]*?)(?=\n### |$)/i.exec(rawOutput);
+
+  if (!diffMatch || !testPlanMatch || !notesMatch) {
+    return Err(
+      executorError(
+        'BAD_ARTIFACTS',
+        'Output missing required sections. Expected ### DIFF, ### TEST_PLAN, and ### NOTES'
+      )
+    );
+  }
+
+  return Ok({
+    diff: diffMatch[1]?.trim() ?? '',
+    testPlan: testPlanMatch[1]?.trim() ?? '',
+    notes: notesMatch[1]?.trim() ?? '',
+    rawOutput,
+  });
+}
+
+/**
+ * Optional TEST_PLAN and NOTES sections, for parsers that take the diff from elsewhere
+ */
+export function parseNotesSections(rawOutput: string): { testPlan: string; notes: string } {
+  const testPlanMatch = /### TEST_PLAN\s*\n([\s\S]*?)(?=\n### |$)/i.exec(rawOutput);
+  const notesMatch = /### NOTES\s*\n([\s\S]*?)(?=\n### |$)/i.exec(rawOutput);
+
+  return {
+    testPlan: testPlanMatch?.[1]?.trim() ?? '',
+    notes: notesMatch?.[1]?.trim() ?? '',
+  };
+}
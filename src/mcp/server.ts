@@ -16,9 +16,15 @@ import type { ArtifactsService } from '../services/artifacts.js';
 import type { Notifier } from '../services/notifier.js';
 import {
   SubmitRequestSchema,
+  SubmitGraphRequestSchema,
   GetRequestSchema,
   ListRequestSchema,
   CancelRequestSchema,
+  SchedulesListRequestSchema,
+  SchedulePauseRequestSchema,
+  ScheduleDeleteRequestSchema,
+  WorkersListRequestSchema,
+  DecisionCacheInvalidateRequestSchema,
 } from '../models/schemas.js';
 import { asJobId } from '../models/index.js';
 import type { ArtifactKind } from '../models/index.js';
@@ -56,7 +62,8 @@ export class JobHubMCPServer {
       tools: [
         {
           name: 'jobs_submit',
-          description: 'Submit a new job to the queue',
+          description:
+            'Submit a new job to the queue; a spec with execution.cron creates a recurring schedule instead',
           inputSchema: {
             type: 'object',
             properties: {
@@ -68,6 +75,22 @@ export class JobHubMCPServer {
             required: ['spec'],
           },
         },
+        {
+          name: 'jobs_submit_graph',
+          description:
+            'Submit several jobs at once; spec.dependsOn may name sibling jobs by idempotencyKey or existing job IDs',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              jobs: {
+                type: 'array',
+                description: 'Job specifications',
+                items: { type: 'object' },
+              },
+            },
+            required: ['jobs'],
+          },
+        },
         {
           name: 'jobs_get',
           description: 'Get job status and details',
@@ -102,6 +125,72 @@ export class JobHubMCPServer {
             required: ['jobId'],
           },
         },
+        {
+          name: 'schedules_list',
+          description: 'List recurring job schedules',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              limit: { type: 'number', description: 'Max results', default: 20 },
+              offset: { type: 'number', description: 'Offset for pagination', default: 0 },
+            },
+          },
+        },
+        {
+          name: 'schedules_pause',
+          description: 'Pause a schedule, or resume it with paused: false',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              scheduleId: { type: 'string', description: 'Schedule ID' },
+              paused: { type: 'boolean', description: 'Pause (true) or resume (false)', default: true },
+            },
+            required: ['scheduleId'],
+          },
+        },
+        {
+          name: 'schedules_delete',
+          description: 'Delete a schedule; jobs it already created are kept',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              scheduleId: { type: 'string', description: 'Schedule ID' },
+            },
+            required: ['scheduleId'],
+          },
+        },
+        {
+          name: 'workers_list',
+          description: 'List registered workers with host, PID, current job, counters and liveness status',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              includeStopped: { type: 'boolean', description: 'Include workers that shut down', default: false },
+              limit: { type: 'number', description: 'Max results', default: 20 },
+              offset: { type: 'number', description: 'Offset for pagination', default: 0 },
+            },
+          },
+        },
+        {
+          name: 'decision_cache_stats',
+          description: 'Report Answer Runner decision cache size, per-role entries and hit/miss/eviction counters',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'decision_cache_invalidate',
+          description: 'Delete cached Answer Runner decisions matching all given filters (at least one is required)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              roleId: { type: 'string', description: 'Role ID, e.g. role.diff_planner; matches every version' },
+              policyVersion: { type: 'string', description: 'Policy version recorded in the attestation' },
+              keyPrefix: { type: 'string', description: 'Leading hex characters of the decision key' },
+            },
+          },
+        },
       ],
     }));
 
@@ -116,7 +205,30 @@ export class JobHubMCPServer {
             throw new Error(`Invalid arguments: ${parsed.error.message}`);
           }
 
-          const result = await this.jobManager.submit(parsed.data.spec);
+          const result = parsed.data.spec.execution.cron !== undefined
+            ? this.jobManager.createSchedule(parsed.data.spec)
+            : await this.jobManager.submit(parsed.data.spec);
+          if (!result.ok) {
+            throw new Error(result.error);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result.value, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'jobs_submit_graph': {
+          const parsed = SubmitGraphRequestSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments: ${parsed.error.message}`);
+          }
+
+          const result = await this.jobManager.submitGraph(parsed.data.jobs);
           if (!result.ok) {
             throw new Error(result.error);
           }
@@ -198,6 +310,131 @@ export class JobHubMCPServer {
           };
         }
 
+        case 'schedules_list': {
+          const parsed = SchedulesListRequestSchema.safeParse(args ?? {});
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments: ${parsed.error.message}`);
+          }
+
+          const result = this.jobManager.listSchedules(parsed.data.limit, parsed.data.offset);
+          if (!result.ok) {
+            throw new Error(result.error);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result.value, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'schedules_pause': {
+          const parsed = SchedulePauseRequestSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments: ${parsed.error.message}`);
+          }
+
+          const result = this.jobManager.pauseSchedule(parsed.data.scheduleId, parsed.data.paused);
+          if (!result.ok) {
+            throw new Error(result.error);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result.value, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'schedules_delete': {
+          const parsed = ScheduleDeleteRequestSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments: ${parsed.error.message}`);
+          }
+
+          const result = this.jobManager.deleteSchedule(parsed.data.scheduleId);
+          if (!result.ok) {
+            throw new Error(result.error);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ deleted: result.value }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'workers_list': {
+          const parsed = WorkersListRequestSchema.safeParse(args ?? {});
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments: ${parsed.error.message}`);
+          }
+
+          const result = this.jobManager.listWorkers(
+            parsed.data.includeStopped,
+            parsed.data.limit,
+            parsed.data.offset
+          );
+          if (!result.ok) {
+            throw new Error(result.error);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result.value, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'decision_cache_stats': {
+          const result = this.jobManager.getDecisionCacheStats();
+          if (!result.ok) {
+            throw new Error(result.error);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result.value, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'decision_cache_invalidate': {
+          const parsed = DecisionCacheInvalidateRequestSchema.safeParse(args ?? {});
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments: ${parsed.error.message}`);
+          }
+
+          const result = this.jobManager.invalidateDecisionCache(parsed.data);
+          if (!result.ok) {
+            throw new Error(result.error);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result.value, null, 2),
+              },
+            ],
+          };
+        }
+
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
@@ -4,7 +4,8 @@
  */
 
 import { z } from 'zod';
-import { JobStates, FailReasons, Priorities } from './states.js';
+import { JobStates, FailReasons, Priorities, WorkerStates } from './states.js';
+import { parseCron } from '../utils/cron.js';
 
 // ============================================================================
 // Repository & Context Schemas
@@ -52,13 +53,41 @@ export const OutputContractSchema = z.tuple([
   z.literal('NOTES'),
 ]);
 
+export const RetryPolicySchema = z.object({
+  maxAttempts: z.number().int().positive().default(3), // Total attempts, including the first
+  backoffBaseMs: z.number().int().positive().default(5000),
+  backoffMaxMs: z.number().int().positive().default(300000),
+  retryOn: z
+    .array(
+      z.enum([
+        FailReasons.BAD_ARTIFACTS,
+        FailReasons.CONFLICT,
+        FailReasons.POLICY,
+        FailReasons.EXECUTOR_ERROR,
+        FailReasons.TIMEOUT,
+        FailReasons.INTERNAL_ERROR,
+      ])
+    )
+    .default([FailReasons.EXECUTOR_ERROR, FailReasons.TIMEOUT, FailReasons.INTERNAL_ERROR]),
+});
+
 export const ExecutionSchema = z.object({
-  preferredModel: z.string().default('gpt-4'),
+  preferredModel: z.string().default(''), // Empty: the routed executor's default model
+  executor: z.string().min(1).optional(), // Explicit executor name; skips model routing
   sandbox: z.literal('read-only'),
   askPolicy: z.literal('untrusted'),
   timeoutS: z.number().int().positive().optional(),
   priority: z.enum([Priorities.P0, Priorities.P1, Priorities.P2]).default(Priorities.P1),
   ttlS: z.number().int().positive().default(3600), // 1 hour default
+  retry: RetryPolicySchema.optional(), // Omit for a single attempt
+  concurrencyKey: z.string().min(1).optional(), // Defaults to repo URL or path + base branch
+  concurrencyLimit: z.number().int().positive().optional(), // Max leased jobs per key; defaults to server config
+  applyParentPatches: z.boolean().default(false), // Apply dependsOn parents' patch.diff before running
+  notBefore: z.number().int().positive().optional(), // Epoch ms; not leased earlier, and ttlS counts from here
+  cron: z // Submitting a spec with cron creates a schedule instead of a job
+    .string()
+    .refine((expression) => parseCron(expression).ok, { message: 'Invalid cron expression' })
+    .optional(),
 });
 
 export const NotifySchema = z.object({
@@ -79,6 +108,8 @@ export const JobSpecSchema = z.object({
   execution: ExecutionSchema,
   idempotencyKey: z.string().min(1),
   notify: NotifySchema.optional(),
+  // Parent job IDs that must SUCCEED first; in jobs_submit_graph, also idempotency keys of sibling jobs
+  dependsOn: z.array(z.string().min(1)).max(20).optional(),
 });
 
 export type JobSpec = z.infer<typeof JobSpecSchema>;
@@ -87,9 +118,26 @@ export type Task = z.infer<typeof TaskSchema>;
 export type Scope = z.infer<typeof ScopeSchema>;
 export type Context = z.infer<typeof ContextSchema>;
 export type Execution = z.infer<typeof ExecutionSchema>;
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
 export type Notify = z.infer<typeof NotifySchema>;
 export type CodeSnippet = z.infer<typeof CodeSnippetSchema>;
 
+// ============================================================================
+// Attempt Record
+// ============================================================================
+
+export const AttemptRecordSchema = z.object({
+  jobId: z.string(),
+  attemptNo: z.number().int().min(0),
+  leaseOwner: z.string(),
+  startedAt: z.number().int().positive(),
+  finishedAt: z.number().int().positive().nullable(),
+  resultCode: z.string().nullable(),
+  reason: z.string().nullable(),
+});
+
+export type AttemptRecord = z.infer<typeof AttemptRecordSchema>;
+
 // ============================================================================
 // Job Status & Summary
 // ============================================================================
@@ -111,6 +159,7 @@ export const JobStatusSchema = z.object({
   finishedAt: z.number().int().positive().optional(),
   durationMs: z.number().int().min(0).optional(),
   attempt: z.number().int().min(0).default(0),
+  attempts: z.array(AttemptRecordSchema).optional(),
   reasonCode: z.enum([
     FailReasons.BAD_ARTIFACTS,
     FailReasons.CONFLICT,
@@ -118,6 +167,7 @@ export const JobStatusSchema = z.object({
     FailReasons.EXECUTOR_ERROR,
     FailReasons.TIMEOUT,
     FailReasons.INTERNAL_ERROR,
+    FailReasons.DEPENDENCY_FAILED,
   ]).optional(),
   pr: z.object({
     url: z.string().url(),
@@ -145,6 +195,7 @@ export const JobRecordSchema = z.object({
   heartbeatAt: z.number().int().positive().nullable(),
   leaseOwner: z.string().nullable(),
   leaseExpiresAt: z.number().int().positive().nullable(),
+  notBefore: z.number().int().positive().nullable(),
   spec: JobSpecSchema,
   summary: z.string().nullable(),
   reasonCode: JobStatusSchema.shape.reasonCode.nullable(),
@@ -152,6 +203,47 @@ export const JobRecordSchema = z.object({
 
 export type JobRecord = z.infer<typeof JobRecordSchema>;
 
+// ============================================================================
+// Schedule - Recurring job template
+// ============================================================================
+
+export const ScheduleRecordSchema = z.object({
+  id: z.string(),
+  name: z.string(), // The template's idempotencyKey
+  cron: z.string(),
+  spec: JobSpecSchema,
+  paused: z.boolean(),
+  nextRunAt: z.number().int().positive().nullable(), // Null once the expression has no further runs
+  lastRunAt: z.number().int().positive().nullable(),
+  lastJobId: z.string().nullable(),
+  createdAt: z.number().int().positive(),
+  updatedAt: z.number().int().positive(),
+});
+
+export type ScheduleRecord = z.infer<typeof ScheduleRecordSchema>;
+
+// ============================================================================
+// Worker - Registered worker loop
+// ============================================================================
+
+export const WorkerRecordSchema = z.object({
+  id: z.string(), // Appears as lease_owner on the jobs it runs
+  host: z.string(),
+  pid: z.number().int().positive(),
+  executors: z.array(z.string()),
+  state: z.enum([WorkerStates.IDLE, WorkerStates.BUSY, WorkerStates.DRAINING, WorkerStates.STOPPED]),
+  currentJobId: z.string().nullable(),
+  currentJobStartedAt: z.number().int().positive().nullable(),
+  attemptsStarted: z.number().int().min(0),
+  attemptsSucceeded: z.number().int().min(0),
+  attemptsFailed: z.number().int().min(0), // Attempts that ended any other way than SUCCEEDED
+  startedAt: z.number().int().positive(),
+  heartbeatAt: z.number().int().positive(),
+  stoppedAt: z.number().int().positive().nullable(),
+});
+
+export type WorkerRecord = z.infer<typeof WorkerRecordSchema>;
+
 // ============================================================================
 // Artifact Metadata
 // ============================================================================
@@ -164,28 +256,13 @@ export const ArtifactMetaSchema = z.object({
   uri: z.string(),
   digest: z.string(),
   size: z.number().int().min(0),
+  executor: z.string().nullable().default(null), // Executor that produced the artifact; null for legacy rows
   createdAt: z.number().int().positive(),
 });
 
 export type ArtifactKind = z.infer<typeof ArtifactKindSchema>;
 export type ArtifactMeta = z.infer<typeof ArtifactMetaSchema>;
 
-// ============================================================================
-// Attempt Record
-// ============================================================================
-
-export const AttemptRecordSchema = z.object({
-  jobId: z.string(),
-  attemptNo: z.number().int().min(0),
-  leaseOwner: z.string(),
-  startedAt: z.number().int().positive(),
-  finishedAt: z.number().int().positive().nullable(),
-  resultCode: z.string().nullable(),
-  reason: z.string().nullable(),
-});
-
-export type AttemptRecord = z.infer<typeof AttemptRecordSchema>;
-
 // ============================================================================
 // Event Record
 // ============================================================================
@@ -217,6 +294,7 @@ export const AskConstraintsSchema = z
     timeout_s: z.number().int().positive().optional(),
     max_tokens: z.number().int().positive().optional(),
     allowed_tools: z.array(z.string()).optional(),
+    max_tool_calls: z.number().int().nonnegative().optional(),
   })
   .optional();
 
@@ -289,6 +367,8 @@ export const AttestationSchema = z.object({
   prompt_fingerprint: z.string(),
   tools_used: z.array(z.string()),
   policy_version: z.string(),
+  /** Served from the decision cache instead of a fresh model call */
+  cached: z.boolean().optional(),
 });
 
 export const AnswerPayloadSchema = z.object({
@@ -328,8 +408,11 @@ export const DecisionCacheRecordSchema = z.object({
   answerJson: z.unknown().optional(),
   answerText: z.string().optional(),
   policyTrace: z.unknown().optional(),
+  attestation: AttestationSchema.optional(),
   createdAt: z.number().int().positive(),
   ttlSeconds: z.number().int().positive(),
+  hitCount: z.number().int().min(0),
+  lastUsedAt: z.number().int().positive(),
 });
 
 export type AskType = z.infer<typeof AskTypeSchema>;
@@ -355,6 +438,88 @@ export const SubmitResponseSchema = z.object({
   jobId: z.string(),
 });
 
+export const SubmitGraphRequestSchema = z.object({
+  jobs: z.array(JobSpecSchema).min(1).max(50),
+});
+
+export const SubmitGraphResponseSchema = z.object({
+  jobs: z.array(
+    z.object({
+      idempotencyKey: z.string(),
+      jobId: z.string(),
+    })
+  ),
+});
+
+export const ScheduleSubmitResponseSchema = z.object({
+  scheduleId: z.string(),
+  nextRunAt: z.number().int().positive().nullable(),
+});
+
+export const SchedulesListRequestSchema = z.object({
+  limit: z.number().int().positive().max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+export const SchedulePauseRequestSchema = z.object({
+  scheduleId: z.string(),
+  paused: z.boolean().default(true),
+});
+
+export const ScheduleDeleteRequestSchema = z.object({
+  scheduleId: z.string(),
+});
+
+export const WorkersListRequestSchema = z.object({
+  includeStopped: z.boolean().default(false),
+  limit: z.number().int().positive().max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+export const WorkersListResponseSchema = z.object({
+  items: z.array(
+    WorkerRecordSchema.extend({
+      status: z.enum([...WorkerRecordSchema.shape.state.options, 'UNRESPONSIVE']),
+    })
+  ),
+  total: z.number().int().min(0),
+  hasMore: z.boolean(),
+});
+
+export const DecisionCacheInvalidateRequestSchema = z
+  .object({
+    roleId: z.string().min(1).optional(), // Matches every version of the role
+    policyVersion: z.string().min(1).optional(),
+    keyPrefix: z.string().regex(/^[0-9a-f]+$/, 'keyPrefix must be lowercase hex').optional(),
+  })
+  .refine(
+    (filter) => filter.roleId !== undefined || filter.policyVersion !== undefined || filter.keyPrefix !== undefined,
+    'Provide roleId, policyVersion or keyPrefix'
+  );
+
+export const DecisionCacheInvalidateResponseSchema = z.object({
+  removed: z.number().int().min(0),
+});
+
+export const DecisionCacheStatsSchema = z.object({
+  entries: z.number().int().min(0),
+  expired: z.number().int().min(0), // Past their TTL, removed on the next sweep
+  maxEntries: z.number().int().min(0),
+  // Counters since server start
+  hits: z.number().int().min(0),
+  misses: z.number().int().min(0),
+  evicted: z.number().int().min(0),
+  purged: z.number().int().min(0),
+  invalidated: z.number().int().min(0),
+  roles: z.array(
+    z.object({
+      roleId: z.string().nullable(),
+      roleVersion: z.string().nullable(),
+      entries: z.number().int().min(0),
+    })
+  ),
+});
+
 export const GetRequestSchema = z.object({
   jobId: z.string(),
 });
@@ -364,7 +529,10 @@ export const GetResponseSchema = z.object({
   state: JobStatusSchema.shape.state,
   summary: z.string().nullable(),
   lastUpdate: z.number().int().positive(),
+  priority: JobRecordSchema.shape.priority,
+  effectivePriority: JobRecordSchema.shape.priority, // After aging; see PRIORITY_AGING_SEC
   attempt: z.number().int().min(0),
+  attempts: z.array(AttemptRecordSchema).optional(),
   pr: JobStatusSchema.shape.pr.optional(),
 });
 
@@ -391,6 +559,17 @@ export const CancelResponseSchema = z.object({
 
 export type SubmitRequest = z.infer<typeof SubmitRequestSchema>;
 export type SubmitResponse = z.infer<typeof SubmitResponseSchema>;
+export type SubmitGraphRequest = z.infer<typeof SubmitGraphRequestSchema>;
+export type SubmitGraphResponse = z.infer<typeof SubmitGraphResponseSchema>;
+export type ScheduleSubmitResponse = z.infer<typeof ScheduleSubmitResponseSchema>;
+export type SchedulesListRequest = z.infer<typeof SchedulesListRequestSchema>;
+export type SchedulePauseRequest = z.infer<typeof SchedulePauseRequestSchema>;
+export type ScheduleDeleteRequest = z.infer<typeof ScheduleDeleteRequestSchema>;
+export type WorkersListRequest = z.infer<typeof WorkersListRequestSchema>;
+export type WorkersListResponse = z.infer<typeof WorkersListResponseSchema>;
+export type DecisionCacheInvalidateRequest = z.infer<typeof DecisionCacheInvalidateRequestSchema>;
+export type DecisionCacheInvalidateResponse = z.infer<typeof DecisionCacheInvalidateResponseSchema>;
+export type DecisionCacheStats = z.infer<typeof DecisionCacheStatsSchema>;
 export type GetRequest = z.infer<typeof GetRequestSchema>;
 export type GetResponse = z.infer<typeof GetResponseSchema>;
 export type ListRequest = z.infer<typeof ListRequestSchema>;
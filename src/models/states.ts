@@ -39,6 +39,7 @@ export const FailReasons = {
   EXECUTOR_ERROR: 'EXECUTOR_ERROR', // Executor crashed
   TIMEOUT: 'TIMEOUT', // Exceeded time limit
   INTERNAL_ERROR: 'INTERNAL_ERROR', // System error
+  DEPENDENCY_FAILED: 'DEPENDENCY_FAILED', // A dependsOn parent did not succeed
 } as const;
 
 // Ask/Answer error codes
@@ -46,12 +47,38 @@ export const AskAnswerErrors = {
   E_CONTEXT_MISMATCH: 'E_CONTEXT_MISMATCH', // Context hash verification failed
   E_CAPS_VIOLATION: 'E_CAPS_VIOLATION', // Tool capability violation
   E_NO_CONTEXT_ENVELOPE: 'E_NO_CONTEXT_ENVELOPE', // Missing required context envelope
+  E_SCHEMA_VIOLATION: 'E_SCHEMA_VIOLATION', // answer_json does not match the output schema
 } as const;
 
 export type AskAnswerError = (typeof AskAnswerErrors)[keyof typeof AskAnswerErrors];
 
 export type FailReason = (typeof FailReasons)[keyof typeof FailReasons];
 
+// Worker states, as recorded by the worker process itself
+export const WorkerStates = {
+  IDLE: 'IDLE',
+  BUSY: 'BUSY',
+  DRAINING: 'DRAINING',
+  STOPPED: 'STOPPED',
+} as const;
+
+export type WorkerState = (typeof WorkerStates)[keyof typeof WorkerStates];
+
+/** Reported status; UNRESPONSIVE when a live worker stops heartbeating (hung or killed) */
+export type WorkerStatus = WorkerState | 'UNRESPONSIVE';
+
+export function workerStatus(
+  state: WorkerState,
+  heartbeatAt: number,
+  now: number,
+  staleAfterMs: number
+): WorkerStatus {
+  if (state !== 'STOPPED' && now - heartbeatAt > staleAfterMs) {
+    return 'UNRESPONSIVE';
+  }
+  return state;
+}
+
 // Priority levels
 export const Priorities = {
   P0: 'P0',
@@ -88,9 +115,15 @@ export function canTransition(from: JobState, to: JobState): boolean {
 
   switch (from) {
     case 'QUEUED':
-      return to === 'RUNNING' || to === 'CANCELED' || to === 'EXPIRED';
+      return (
+        to === 'RUNNING' ||
+        to === 'FAILED' || // A dependsOn parent did not succeed
+        to === 'CANCELED' ||
+        to === 'EXPIRED'
+      );
     case 'RUNNING':
       return (
+        to === 'QUEUED' || // Retry after a retryable failure
         to === 'SUCCEEDED' ||
         to === 'FAILED' ||
         to === 'CANCELED' ||
@@ -103,10 +136,16 @@ export function canTransition(from: JobState, to: JobState): boolean {
         to === 'RUNNING' ||
         to === 'FAILED' ||
         to === 'CANCELED' ||
-        to === 'EXPIRED'
+        to === 'EXPIRED' ||
+        to === 'STALE'
       );
     case 'STALE':
-      return to === 'RUNNING' || to === 'FAILED' || to === 'EXPIRED';
+      return (
+        to === 'QUEUED' || // Recovered by the lease reaper
+        to === 'RUNNING' ||
+        to === 'FAILED' ||
+        to === 'EXPIRED'
+      );
     default:
       assertNever(from);
   }
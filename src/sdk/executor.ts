@@ -3,14 +3,20 @@ import type { AskType, AnswerStatus, ContextEnvelope, Attestation } from '../mod
 import { AskAnswerErrors } from '../models/states.js';
 import { stableHashContext } from '../utils/hash.js';
 
+type AskEnv = Record<string, string | undefined>;
+
 type AskOptions = {
   timeout_s?: number;
   allowed_tools?: string[];
+  /** Upper bound on tool calls the Answer Runner may make for this Ask */
+  max_tool_calls?: number;
   role_id?: string;
   prompt_overrides?: {
     system_append?: string;
     output_schema?: unknown;
   };
+  /** Variables read instead of process.env, for executors running inside the relay process */
+  env?: AskEnv;
 };
 
 type AskResult<T> = { text?: string; json?: T };
@@ -19,6 +25,7 @@ type AskConstraints = {
   timeout_s?: number;
   max_tokens?: number;
   allowed_tools?: string[];
+  max_tool_calls?: number;
   tool_caps?: Record<string, unknown>;
 };
 
@@ -54,8 +61,8 @@ type AnswerRecord<T> = {
 const DEFAULT_ORIGIN = 'http://localhost:3415';
 const DEFAULT_WAIT_SECONDS = 25;
 
-function requiredEnv(name: string): string {
-  const value = process.env[name];
+function requiredEnv(env: AskEnv, name: string): string {
+  const value = env[name];
   if (!value || value.length === 0) {
     throw new Error(`Missing required environment variable ${name}`);
   }
@@ -63,14 +70,15 @@ function requiredEnv(name: string): string {
 }
 
 function buildContextEnvelope(
+  env: AskEnv,
   role: string,
   options?: AskOptions
 ): ContextEnvelope {
   // Extract repo info from environment (only include non-defaults to reduce token usage)
-  const repo = process.env['TASK_RELAY_REPO'];
-  const commitSha = process.env['TASK_RELAY_COMMIT_SHA'];
-  const envProfile = process.env['TASK_RELAY_PROFILE'];
-  const policyVersion = process.env['TASK_RELAY_POLICY_VERSION'];
+  const repo = env['TASK_RELAY_REPO'];
+  const commitSha = env['TASK_RELAY_COMMIT_SHA'];
+  const envProfile = env['TASK_RELAY_PROFILE'];
+  const policyVersion = env['TASK_RELAY_POLICY_VERSION'];
 
   // Build job_snapshot with only non-default values
   const jobSnapshot: {
@@ -88,10 +96,10 @@ function buildContextEnvelope(
   const facts: Record<string, unknown> = {};
 
   // Add custom facts from environment variables prefixed with TASK_RELAY_FACT_
-  for (const key in process.env) {
+  for (const key in env) {
     if (key.startsWith('TASK_RELAY_FACT_')) {
       const factKey = key.replace('TASK_RELAY_FACT_', '').toLowerCase();
-      facts[factKey] = process.env[key];
+      facts[factKey] = env[key];
     }
   }
 
@@ -139,6 +147,10 @@ function buildConstraints(options?: AskOptions): AskConstraints | undefined {
     constraints.allowed_tools = options.allowed_tools;
   }
 
+  if (options.max_tool_calls !== undefined) {
+    constraints.max_tool_calls = options.max_tool_calls;
+  }
+
   return Object.keys(constraints).length > 0 ? constraints : undefined;
 }
 
@@ -150,12 +162,12 @@ function buildMeta(options?: AskOptions): Record<string, unknown> | undefined {
   return { prompt_overrides: options.prompt_overrides };
 }
 
-function getOrigin(): string {
-  return process.env['ASK_ANSWER_ORIGIN'] ?? DEFAULT_ORIGIN;
+function getOrigin(env: AskEnv): string {
+  return env['ASK_ANSWER_ORIGIN'] ?? DEFAULT_ORIGIN;
 }
 
-function getWaitSeconds(): number {
-  const configured = process.env['ASK_ANSWER_WAIT_SECONDS'];
+function getWaitSeconds(env: AskEnv): number {
+  const configured = env['ASK_ANSWER_WAIT_SECONDS'];
   if (!configured) {
     return DEFAULT_WAIT_SECONDS;
   }
@@ -172,15 +184,16 @@ export async function ask<T = unknown>(
   prompt: string,
   options?: AskOptions
 ): Promise<AskResult<T>> {
-  const jobId = requiredEnv('TASK_RELAY_JOB_ID');
-  const stepId = requiredEnv('TASK_RELAY_STEP_ID');
+  const env = options?.env ?? process.env;
+  const jobId = requiredEnv(env, 'TASK_RELAY_JOB_ID');
+  const stepId = requiredEnv(env, 'TASK_RELAY_STEP_ID');
 
   const constraints = buildConstraints(options);
   const meta = buildMeta(options);
 
   // Build context envelope with role
   const role = options?.role_id ?? 'default';
-  const contextEnvelope = buildContextEnvelope(role, options);
+  const contextEnvelope = buildContextEnvelope(env, role, options);
 
   // Compute context hash from envelope
   const contextHash = stableHashContext(contextEnvelope);
@@ -199,7 +212,7 @@ export async function ask<T = unknown>(
     ...(meta ? { meta } : {}),
   } satisfies AskPayload;
 
-  const origin = getOrigin();
+  const origin = getOrigin(env);
   const askResponse = await fetch(new URL('/asks', origin), {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -213,7 +226,7 @@ export async function ask<T = unknown>(
 
   const record = (await askResponse.json()) as AskRecord;
   const askId = record.askId;
-  const waitSeconds = getWaitSeconds();
+  const waitSeconds = getWaitSeconds(env);
 
   while (true) {
     const answerUrl = new URL(`/asks/${askId}/answer?wait=${waitSeconds}s`, origin);
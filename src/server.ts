@@ -1,17 +1,23 @@
+import { existsSync } from 'node:fs';
 import { mkdir } from 'node:fs/promises';
-import { resolve } from 'node:path';
+import { join, resolve } from 'node:path';
 import { createConnection, runMigrations, type StorageMode } from './db/connection.js';
 import { loadConfig } from './config/index.js';
 import { createLogger } from './utils/logger.js';
 import { ArtifactsService } from './services/artifacts.js';
+import { RepoCache } from './services/repo-cache.js';
 import { Notifier } from './services/notifier.js';
 import { JobHubMCPServer } from './mcp/server.js';
-import { createExecutors, selectExecutor } from './executors/index.js';
+import { createExecutors } from './executors/index.js';
 import { JobManager } from './core/job-manager.js';
 import { Worker } from './core/worker.js';
+import { WorkSignal } from './core/work-signal.js';
+import { JobSweeper } from './core/sweeper.js';
+import { JobScheduler } from './core/scheduler.js';
 import { AskAnswerServer } from './services/ask-answer.js';
-import { AnswerRunner } from './answer-runner/index.js';
-import type { AskRecord, AnswerPayload } from './models/index.js';
+import { ControlServer } from './services/control-server.js';
+import { AnswerRunner, type RepoSnapshot } from './answer-runner/index.js';
+import { asJobId, type AskRecord, type AnswerPayload } from './models/index.js';
 import type { Logger } from 'pino';
 
 export interface TaskRelayServerOptions {
@@ -35,19 +41,92 @@ function resolveSqlitePath(mode: StorageMode, provided?: string): string {
   return 'file:mcp-task-relay?mode=memory&cache=shared';
 }
 
+/**
+ * Answer an Ask from the decision cache, if an unexpired entry exists
+ */
+function answerFromCache(
+  ask: AskRecord,
+  decisionKey: string,
+  jobManager: JobManager,
+  logger: Logger
+): AnswerPayload | null {
+  const cached = jobManager.getDecisionCache(decisionKey, ask);
+  if (!cached.ok) {
+    logger.warn({ askId: ask.askId, error: cached.error }, 'Decision cache lookup failed');
+    return null;
+  }
+  if (!cached.value) {
+    return null;
+  }
+
+  const entry = cached.value;
+  return {
+    type: 'Answer',
+    ask_id: ask.askId,
+    job_id: ask.jobId,
+    step_id: ask.stepId,
+    status: 'ANSWERED',
+    answer_text: entry.answerText,
+    answer_json: entry.answerJson,
+    attestation: entry.attestation ? { ...entry.attestation, cached: true } : undefined,
+    policy_trace: entry.policyTrace,
+    cacheable: true,
+  };
+}
+
+/**
+ * The Ask's job repository at its baseline commit: the cached mirror for git repos, the
+ * repository itself for local ones. Null when the job or its mirror is gone.
+ */
+function repoSnapshot(ask: AskRecord, jobManager: JobManager, repoCache: RepoCache): RepoSnapshot | null {
+  const spec = jobManager.getSpec(asJobId(ask.jobId));
+  if (!spec.ok) {
+    return null;
+  }
+
+  const { repo } = spec.value;
+  if (repo.type === 'git' && repo.url) {
+    const mirror = repoCache.mirrorPath(repo.url);
+    return existsSync(mirror) ? { gitArgs: ['--git-dir', mirror], commit: repo.baselineCommit } : null;
+  }
+  if (repo.type === 'local' && repo.path) {
+    return { gitArgs: ['-C', repo.path], commit: repo.baselineCommit };
+  }
+
+  return null;
+}
+
 /**
  * Process an Ask in the background using the Answer Runner
+ * Identical Asks (same role, context hash, prompt and output schema) are served from the
+ * decision cache; fresh cacheable answers are stored for the role's TTL.
  */
 async function processAsk(
   ask: AskRecord,
   runner: AnswerRunner,
   jobManager: JobManager,
+  repoCache: RepoCache,
   logger: Logger
 ): Promise<void> {
   logger.debug({ askId: ask.askId, jobId: ask.jobId }, 'Processing Ask with Answer Runner');
 
   try {
-    const result = await runner.run(ask);
+    const cacheKey = runner.decisionCacheKey(ask);
+    const cachedPayload = cacheKey ? answerFromCache(ask, cacheKey.decisionKey, jobManager, logger) : null;
+    if (cachedPayload) {
+      const recordResult = jobManager.recordAnswer(cachedPayload);
+      if (!recordResult.ok) {
+        logger.error(
+          { askId: ask.askId, error: recordResult.error },
+          'Failed to record cached Answer'
+        );
+      } else {
+        logger.info({ askId: ask.askId }, 'Answer served from decision cache');
+      }
+      return;
+    }
+
+    const result = await runner.run(ask, { snapshot: repoSnapshot(ask, jobManager, repoCache) });
 
     const answerPayload: AnswerPayload = {
       type: 'Answer',
@@ -64,6 +143,21 @@ async function processAsk(
       cacheable: result.cacheable,
     };
 
+    // Ask-backs need the executor's reply, so only final answers are reused
+    if (cacheKey && result.status === 'ANSWERED' && result.cacheable === true && !result.askBack) {
+      const putResult = jobManager.putDecisionCache({
+        decisionKey: cacheKey.decisionKey,
+        ttlSeconds: cacheKey.ttlSeconds,
+        ...(result.answerJson !== undefined ? { answerJson: result.answerJson } : {}),
+        ...(result.answerText !== undefined ? { answerText: result.answerText } : {}),
+        ...(result.policyTrace !== undefined ? { policyTrace: result.policyTrace } : {}),
+        ...(result.attestation !== undefined ? { attestation: result.attestation } : {}),
+      });
+      if (!putResult.ok) {
+        logger.warn({ askId: ask.askId, error: putResult.error }, 'Failed to store decision cache entry');
+      }
+    }
+
     const recordResult = jobManager.recordAnswer(answerPayload);
     if (!recordResult.ok) {
       logger.error(
@@ -128,43 +222,78 @@ export async function startTaskRelayServer(options: TaskRelayServerOptions = {})
     logger.debug({ sqlitePath }, 'Storage ready');
 
     const artifacts = new ArtifactsService(config.server.artifactRoot);
+    const repoCache = new RepoCache(
+      {
+        cacheDir: config.repoCache.dir ?? join(config.server.artifactRoot, '.repo-cache'),
+        gcIntervalMs: config.repoCache.gcIntervalMs,
+        maxIdleMs: config.repoCache.maxIdleSec * 1000,
+      },
+      logger
+    );
     const executors = createExecutors(config);
     if (executors.length === 0) {
       throw new Error('No executors configured. Enable at least one CLI backend.');
     }
+    logger.debug({ executors: executors.map((route) => route.executor.name) }, 'Executors ready');
 
-    const jobManager = new JobManager(db, artifacts, logger);
+    const workSignal = new WorkSignal();
+    const jobManager = new JobManager(
+      db,
+      artifacts,
+      logger,
+      {
+        priorityAgingMs: config.server.priorityAgingSec * 1000,
+        workerStaleMs: config.server.leaseTtlSec * 1000,
+        decisionCacheMaxEntries: config.askAnswer.runner.cacheMaxEntries,
+      },
+      workSignal
+    );
     const notifier = new Notifier(null, logger);
 
     let askAnswerServer: AskAnswerServer | undefined;
+    let controlServer: ControlServer | undefined;
     let answerRunner: AnswerRunner | undefined;
+    let draining = false;
+    const lifecycle = {
+      isDraining: () => draining,
+      drain: () => void shutdown(),
+    };
 
     if (options.askAnswer !== false) {
-      askAnswerServer = new AskAnswerServer(jobManager, logger, {
-        port: config.askAnswer.port,
-        longPollTimeoutMs: config.askAnswer.longPollTimeoutSec * 1000,
-        sseHeartbeatMs: config.askAnswer.sseHeartbeatSec * 1000,
-      });
+      askAnswerServer = new AskAnswerServer(
+        jobManager,
+        logger,
+        {
+          port: config.askAnswer.port,
+          longPollTimeoutMs: config.askAnswer.longPollTimeoutSec * 1000,
+          sseHeartbeatMs: config.askAnswer.sseHeartbeatSec * 1000,
+        },
+        lifecycle
+      );
       askAnswerServer.start();
 
       // Initialize Answer Runner if enabled
       if (config.askAnswer.runner.enabled) {
         const promptsDir = config.runtime.promptsDir ?? resolve('./prompts');
+        const schemataDir = config.runtime.schemataDir ?? resolve('./schemata');
 
         try {
           answerRunner = new AnswerRunner(
             {
               promptsDir,
+              schemataDir,
               model: config.askAnswer.runner.model,
               maxRetries: config.askAnswer.runner.maxRetries,
               defaultTimeout: config.askAnswer.runner.defaultTimeout,
+              cacheTtlSec: config.askAnswer.runner.cacheTtlSec,
+              mcpServers: config.askAnswer.runner.mcpServers,
             },
             logger
           );
 
           // Listen for Ask events and process them in the background
           jobManager.on('ask.created', ({ ask }) => {
-            void processAsk(ask, answerRunner!, jobManager, logger).catch((error) => {
+            void processAsk(ask, answerRunner!, jobManager, repoCache, logger).catch((error) => {
               logger.error({ askId: ask.askId, error }, 'Failed to process Ask in background');
             });
           });
@@ -177,6 +306,10 @@ export async function startTaskRelayServer(options: TaskRelayServerOptions = {})
           );
         }
       }
+    } else {
+      // Health checks and drain requests still need an endpoint
+      controlServer = new ControlServer(logger, { port: config.askAnswer.port }, lifecycle);
+      controlServer.start();
     }
 
     if (options.webUi) {
@@ -190,38 +323,90 @@ export async function startTaskRelayServer(options: TaskRelayServerOptions = {})
       webUiServer.start();
     }
 
-    const executor = selectExecutor(executors);
-    if (!executor) {
-      throw new Error('Unable to select executor');
-    }
-
     const workerConfig = {
       leaseTtlMs: config.server.leaseTtlSec * 1000,
       heartbeatIntervalMs: config.server.heartbeatIntervalSec * 1000,
       pollIntervalMs: config.server.workerPollIntervalMs,
+      maxPollIntervalMs: config.server.workerPollMaxIntervalMs,
+      concurrencyLimit: config.server.concurrencyGroupLimit,
+      priorityAgingMs: config.server.priorityAgingSec * 1000,
+      executorFallback: config.executors.fallback[config.runtime.profile],
+      ...(askAnswerServer ? { askAnswerOrigin: `http://localhost:${config.askAnswer.port}` } : {}),
     };
 
+    const enabledExecutors = new Set(executors.map((route) => route.executor.name));
+    const unknownFallback = workerConfig.executorFallback.filter((name) => !enabledExecutors.has(name));
+    if (unknownFallback.length > 0) {
+      logger.warn({ executors: unknownFallback }, 'Fallback executors are not enabled and will be skipped');
+    }
+
+    const workers: Worker[] = [];
     for (let i = 0; i < config.server.maxConcurrency; i++) {
-      const worker = new Worker(db, artifacts, executor, workerConfig, logger);
+      const worker = new Worker(db, artifacts, repoCache, executors, workerConfig, logger, workSignal);
+      workers.push(worker);
       void worker.start().catch((error) => {
         logger.error({ error }, 'Worker crashed');
       });
     }
 
+    const sweeper = new JobSweeper(
+      jobManager,
+      {
+        intervalMs: config.server.jobTimeoutCheckIntervalMs,
+        staleMaxAttempts: config.server.staleMaxAttempts,
+      },
+      logger
+    );
+    sweeper.start();
+    repoCache.start();
+
+    const scheduler = new JobScheduler(
+      jobManager,
+      { intervalMs: config.server.schedulerIntervalMs },
+      logger
+    );
+    scheduler.start();
+
     const mcpServer = new JobHubMCPServer(jobManager, artifacts, notifier, logger);
     await mcpServer.start();
 
     logger.info('MCP stdio transport running');
 
-    const shutdown = (): void => {
+    // Drain: stop leasing, let in-flight jobs finish or requeue them, then close storage.
+    // The Ask/Answer server stays up until workers are done, as their jobs may still ask.
+    const shutdown = async (): Promise<void> => {
+      if (draining) {
+        return;
+      }
+      draining = true;
+
+      const graceMs = config.server.drainGraceSec * 1000;
+      logger.info({ graceMs }, 'Draining Task Relay');
+      scheduler.stop();
+      await Promise.all(workers.map((worker) => worker.drain(graceMs)));
+
       logger.info('Shutting down Task Relay');
+      sweeper.stop();
+      repoCache.stop();
       askAnswerServer?.stop();
+      controlServer?.stop();
+      await answerRunner?.close();
       close();
       process.exit(0);
     };
 
-    process.on('SIGINT', shutdown);
-    process.on('SIGTERM', shutdown);
+    const onSignal = (): void => {
+      if (draining) {
+        // A second signal skips the grace period
+        logger.warn('Forced shutdown');
+        close();
+        process.exit(1);
+      }
+      void shutdown();
+    };
+
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
   } catch (error) {
     close();
     throw error instanceof Error ? error : new Error(String(error));
@@ -8,7 +8,13 @@ import { URL } from 'url';
 import type { Logger } from 'pino';
 import { asJobId } from '../models/index.js';
 import type { JobManager } from '../core/job-manager.js';
-import type { AnswerRecord, AskPayload, AnswerPayload } from '../models/index.js';
+import type {
+  AnswerRecord,
+  AskPayload,
+  AnswerPayload,
+  DecisionCacheInvalidateRequest,
+} from '../models/index.js';
+import { handleDrain, handleHealth, isLocalRequest, type ServerLifecycle } from './control-server.js';
 
 interface AskAnswerServerConfig {
   port: number;
@@ -36,7 +42,8 @@ export class AskAnswerServer {
   constructor(
     private readonly jobManager: JobManager,
     private readonly logger: Logger,
-    private readonly config: AskAnswerServerConfig
+    private readonly config: AskAnswerServerConfig,
+    private readonly lifecycle?: ServerLifecycle
   ) {
     this.jobManager.on('answer.recorded', ({ answer }) => {
       this.resolvePending(answer.askId, answer);
@@ -107,6 +114,26 @@ export class AskAnswerServer {
     const url = new URL(req.url, `http://${req.headers.host ?? 'localhost'}`);
     const pathname = url.pathname;
 
+    if (req.method === 'GET' && pathname === '/health') {
+      handleHealth(res, this.lifecycle);
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/drain' && this.lifecycle) {
+      handleDrain(req, res, this.lifecycle, this.logger);
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/decision-cache') {
+      this.handleDecisionCacheStats(res);
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/decision-cache/invalidate') {
+      this.handleDecisionCacheInvalidate(req, res);
+      return;
+    }
+
     if (req.method === 'POST' && pathname === '/asks') {
       this.handleCreateAsk(req, res);
       return;
@@ -154,6 +181,41 @@ export class AskAnswerServer {
     res.end(JSON.stringify({ error: 'Not Found' }));
   }
 
+  private handleDecisionCacheStats(res: ServerResponse): void {
+    const result = this.jobManager.getDecisionCacheStats();
+    if (!result.ok) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: result.error }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(result.value));
+  }
+
+  private async handleDecisionCacheInvalidate(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!isLocalRequest(req)) {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Decision cache invalidation is only accepted from localhost' }));
+      return;
+    }
+
+    const body = await this.readJson(req, res);
+    if (body === undefined) {
+      return;
+    }
+
+    const result = this.jobManager.invalidateDecisionCache(body as DecisionCacheInvalidateRequest);
+    if (!result.ok) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: result.error }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(result.value));
+  }
+
   private async handleCreateAsk(req: IncomingMessage, res: ServerResponse): Promise<void> {
     const body = await this.readJson(req, res);
     if (body === undefined) {
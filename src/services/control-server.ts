@@ -0,0 +1,91 @@
+/**
+ * Control HTTP server
+ * GET /health and POST /drain, which the Ask/Answer server also serves. Started in its place
+ * when Ask/Answer is disabled, so supervisors and `mcp-task-relay drain` reach every deployment.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { Logger } from 'pino';
+
+/**
+ * Process lifecycle hooks behind GET /health and POST /drain
+ */
+export interface ServerLifecycle {
+  isDraining(): boolean;
+  /** Begin a graceful drain; the process exits once it completes */
+  drain(): void;
+}
+
+interface ControlServerConfig {
+  port: number;
+}
+
+export function handleHealth(res: ServerResponse, lifecycle: ServerLifecycle | undefined): void {
+  const draining = lifecycle?.isDraining() ?? false;
+  // 503 while draining, so load balancers and supervisors stop routing work here
+  res.writeHead(draining ? 503 : 200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ status: draining ? 'draining' : 'ok', draining }));
+}
+
+export function isLocalRequest(req: IncomingMessage): boolean {
+  const remote = req.socket.remoteAddress ?? '';
+  return remote === '127.0.0.1' || remote === '::1' || remote === '::ffff:127.0.0.1';
+}
+
+export function handleDrain(
+  req: IncomingMessage,
+  res: ServerResponse,
+  lifecycle: ServerLifecycle,
+  logger: Logger
+): void {
+  if (!isLocalRequest(req)) {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Drain is only accepted from localhost' }));
+    return;
+  }
+
+  logger.info('Drain requested over HTTP');
+  lifecycle.drain();
+
+  res.writeHead(202, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ draining: true }));
+}
+
+export class ControlServer {
+  private readonly server = createServer((req, res) => this.handleRequest(req, res));
+
+  constructor(
+    private readonly logger: Logger,
+    private readonly config: ControlServerConfig,
+    private readonly lifecycle: ServerLifecycle
+  ) {}
+
+  start(): void {
+    this.server.listen(this.config.port, () => {
+      this.logger.info({ port: this.config.port }, 'Control server listening');
+    });
+  }
+
+  stop(): void {
+    this.server.close(() => {
+      this.logger.info('Control server stopped');
+    });
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const pathname = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`).pathname;
+
+    if (req.method === 'GET' && pathname === '/health') {
+      handleHealth(res, this.lifecycle);
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/drain') {
+      handleDrain(req, res, this.lifecycle, this.logger);
+      return;
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not Found' }));
+  }
+}
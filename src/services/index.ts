@@ -3,6 +3,8 @@
  */
 
 export * from './artifacts.js';
+export * from './repo-cache.js';
 export * from './notifier.js';
 export * from './web-ui.js';
 export * from './ask-answer.js';
+export * from './control-server.js';
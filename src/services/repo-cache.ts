@@ -0,0 +1,298 @@
+/**
+ * Repository cache
+ * Keeps one bare mirror per git URL and hands each job a worktree at its baseline commit.
+ * Mirror updates and worktree bookkeeping run under a per-mirror lock file, so workers in
+ * this and other processes sharing the cache directory never write a mirror concurrently.
+ */
+
+import { execa } from 'execa';
+import { join } from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { link, mkdir, open, readFile, readdir, rename, rm, stat, utimes } from 'fs/promises';
+import type { Logger } from 'pino';
+import { Result, Ok, Err } from '../models/index.js';
+
+export interface RepoCacheConfig {
+  cacheDir: string;
+  gcIntervalMs: number;
+  /** Mirrors unused for longer than this are deleted by GC */
+  maxIdleMs: number;
+}
+
+export interface RepoCacheGcResult {
+  removed: number;
+  kept: number;
+}
+
+const LOCK_RETRY_MS = 200;
+
+/**
+ * Stable, readable directory name for a mirror; credentials in the URL only affect the hash
+ */
+export function mirrorName(url: string): string {
+  const hash = createHash('sha256').update(url).digest('hex').slice(0, 12);
+  const withoutScheme = url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').replace(/^[^@/]*@/, '');
+  const readable = withoutScheme
+    .replace(/\.git\/?$/, '')
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(-60);
+  return `${readable || 'repo'}-${hash}.git`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export class RepoCache {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly config: RepoCacheConfig,
+    private readonly logger: Logger
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.gc().then((result) => {
+        if (!result.ok) {
+          this.logger.error({ error: result.error }, 'Repository cache GC failed');
+        }
+      });
+    }, this.config.gcIntervalMs);
+    this.timer.unref();
+    this.logger.info({ cacheDir: this.config.cacheDir, intervalMs: this.config.gcIntervalMs }, 'Repository cache GC started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  mirrorPath(url: string): string {
+    return join(this.config.cacheDir, mirrorName(url));
+  }
+
+  /**
+   * Check out `commit` of `url` as a detached worktree in the (empty) workDir.
+   * Returns Err when the commit does not exist upstream; git and network failures throw.
+   */
+  async checkout(url: string, commit: string, workDir: string, signal: AbortSignal): Promise<Result<void, string>> {
+    const mirror = this.mirrorPath(url);
+
+    return await this.withLock(mirror, signal, async () => {
+      const git = { cancelSignal: signal };
+
+      if (!(await this.exists(mirror))) {
+        // Clone beside the final path so a crash never leaves a half-written mirror in place
+        const partial = `${mirror}.partial-${randomBytes(4).toString('hex')}`;
+        try {
+          await execa('git', ['clone', '--mirror', '--quiet', url, partial], git);
+          await rename(partial, mirror);
+        } finally {
+          await rm(partial, { recursive: true, force: true });
+        }
+        this.logger.info({ url, mirror }, 'Repository mirror created');
+      }
+
+      if (!(await this.hasCommit(mirror, commit, signal))) {
+        await execa('git', ['--git-dir', mirror, 'fetch', '--quiet', 'origin'], git);
+      }
+
+      if (!(await this.hasCommit(mirror, commit, signal))) {
+        // Baselines that are no longer (or not yet) on a branch, where the server allows it
+        await execa('git', ['--git-dir', mirror, 'fetch', '--quiet', 'origin', commit], { ...git, reject: false });
+      }
+
+      if (!(await this.hasCommit(mirror, commit, signal))) {
+        return Err(`Baseline commit ${commit} not found in ${url}`);
+      }
+
+      await execa('git', ['--git-dir', mirror, 'worktree', 'prune'], git);
+      await execa('git', ['--git-dir', mirror, 'worktree', 'add', '--quiet', '--detach', '--force', workDir, commit], git);
+
+      const now = new Date();
+      await utimes(mirror, now, now);
+
+      return Ok(undefined);
+    });
+  }
+
+  /**
+   * Detach a job's worktree from its mirror; the caller deletes the directory
+   */
+  async release(url: string, workDir: string): Promise<void> {
+    const mirror = this.mirrorPath(url);
+    if (!(await this.exists(mirror))) {
+      return;
+    }
+
+    try {
+      await this.withLock(mirror, undefined, async () => {
+        await execa('git', ['--git-dir', mirror, 'worktree', 'remove', '--force', workDir], { reject: false });
+      });
+    } catch (error) {
+      // Leftover metadata is pruned on the next checkout or GC
+      this.logger.warn({ url, workDir, error }, 'Failed to remove worktree');
+    }
+  }
+
+  /**
+   * Delete idle mirrors without worktrees and repack the rest
+   */
+  async gc(now: number = Date.now()): Promise<Result<RepoCacheGcResult, string>> {
+    try {
+      const entries = await readdir(this.config.cacheDir, { withFileTypes: true }).catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      });
+
+      let removed = 0;
+      let kept = 0;
+
+      for (const entry of entries) {
+        if (!entry.isDirectory() || !entry.name.endsWith('.git')) {
+          continue;
+        }
+
+        const mirror = join(this.config.cacheDir, entry.name);
+        const wasRemoved = await this.withLock(mirror, undefined, async () => {
+          await execa('git', ['--git-dir', mirror, 'worktree', 'prune']);
+
+          const worktrees = await execa('git', ['--git-dir', mirror, 'worktree', 'list', '--porcelain']);
+          const inUse = worktrees.stdout.split('\n').filter((line) => line.startsWith('worktree ')).length > 1;
+          const idleMs = now - (await stat(mirror)).mtimeMs;
+
+          if (!inUse && idleMs > this.config.maxIdleMs) {
+            await rm(mirror, { recursive: true, force: true });
+            return true;
+          }
+
+          await execa('git', ['--git-dir', mirror, 'gc', '--auto', '--quiet']);
+          return false;
+        });
+
+        if (wasRemoved) {
+          removed++;
+        } else {
+          kept++;
+        }
+      }
+
+      this.logger.debug({ removed, kept }, 'Repository cache GC finished');
+      return Ok({ removed, kept });
+    } catch (error) {
+      return Err(`Failed to collect repository cache: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async hasCommit(mirror: string, commit: string, signal: AbortSignal): Promise<boolean> {
+    const result = await execa('git', ['--git-dir', mirror, 'cat-file', '-e', `${commit}^{commit}`], {
+      reject: false,
+      cancelSignal: signal,
+    });
+    return result.exitCode === 0;
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await stat(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Run fn while holding `<mirror>.lock`. The lock file records the holder's pid and a token
+   * unique to this acquisition; a lock whose holder has died is taken over.
+   */
+  private async withLock<T>(mirror: string, signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+    await mkdir(this.config.cacheDir, { recursive: true });
+    const lockPath = `${mirror}.lock`;
+    const owner = `${process.pid} ${randomBytes(8).toString('hex')}`;
+
+    for (;;) {
+      signal?.throwIfAborted();
+
+      try {
+        const handle = await open(lockPath, 'wx');
+        await handle.writeFile(owner);
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const holder = await readFile(lockPath, 'utf-8').catch(() => '');
+      const pid = Number.parseInt(holder, 10);
+      if (Number.isInteger(pid) && pid > 0 && !isProcessAlive(pid)) {
+        if (await this.removeStaleLock(lockPath, holder)) {
+          this.logger.warn({ lockPath, pid }, 'Removed repository cache lock left by a dead process');
+        }
+        continue;
+      }
+
+      await sleep(LOCK_RETRY_MS);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      // A lock taken over while fn ran belongs to someone else now
+      if ((await readFile(lockPath, 'utf-8').catch(() => '')) === owner) {
+        await rm(lockPath, { force: true });
+      }
+    }
+  }
+
+  /**
+   * Remove the lock `stale` read from lockPath. Moving it aside is atomic, so of several
+   * contenders only one gets it; when what was moved is not the stale lock (the lock changed
+   * hands since it was read), it is put back unless someone has locked again in the meantime.
+   */
+  private async removeStaleLock(lockPath: string, stale: string): Promise<boolean> {
+    const aside = `${lockPath}.stale-${randomBytes(4).toString('hex')}`;
+    try {
+      await rename(lockPath, aside);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+
+    try {
+      if ((await readFile(aside, 'utf-8')) === stale) {
+        return true;
+      }
+      await link(aside, lockPath).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      });
+      return false;
+    } finally {
+      await rm(aside, { force: true });
+    }
+  }
+}
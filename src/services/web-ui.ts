@@ -41,6 +41,8 @@ export class WebUIServer {
       this.serveHTML(res);
     } else if (url === '/api/jobs') {
       this.serveJobs(res);
+    } else if (url === '/api/workers') {
+      this.serveWorkers(res);
     } else if (url.startsWith('/api/jobs/')) {
       const jobId = url.split('/')[3];
       if (jobId) {
@@ -103,6 +105,30 @@ export class WebUIServer {
           </div>
         </div>
 
+        <!-- Workers -->
+        <div class="bg-white shadow overflow-hidden sm:rounded-lg mb-6">
+          <div class="px-4 py-5 sm:px-6">
+            <h2 class="text-lg leading-6 font-medium text-gray-900">Workers</h2>
+          </div>
+          <div class="border-t border-gray-200 overflow-x-auto">
+            <table class="min-w-full divide-y divide-gray-200 text-sm">
+              <thead class="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">
+                <tr>
+                  <th class="px-4 py-2">Status</th>
+                  <th class="px-4 py-2">Worker</th>
+                  <th class="px-4 py-2">Host / PID</th>
+                  <th class="px-4 py-2">Current Job</th>
+                  <th class="px-4 py-2">Last Heartbeat</th>
+                  <th class="px-4 py-2">Attempts (ok / failed)</th>
+                </tr>
+              </thead>
+              <tbody id="worker-list" class="divide-y divide-gray-200">
+                <!-- Workers will be inserted here -->
+              </tbody>
+            </table>
+          </div>
+        </div>
+
         <!-- Job List -->
         <div class="bg-white shadow overflow-hidden sm:rounded-lg">
           <div class="px-4 py-5 sm:px-6 flex justify-between items-center">
@@ -140,6 +166,47 @@ export class WebUIServer {
       return classes[state] || 'bg-gray-100 text-gray-800';
     }
 
+    function getWorkerStatusClass(status) {
+      const classes = {
+        'IDLE': 'bg-green-100 text-green-800',
+        'BUSY': 'bg-blue-100 text-blue-800',
+        'DRAINING': 'bg-yellow-100 text-yellow-800',
+        'STOPPED': 'bg-gray-100 text-gray-800',
+        'UNRESPONSIVE': 'bg-red-100 text-red-800',
+      };
+      return classes[status] || 'bg-gray-100 text-gray-800';
+    }
+
+    function renderWorker(worker) {
+      const job = worker.currentJobId
+        ? \`\${worker.currentJobId}<br><span class="text-xs text-gray-400">since \${formatDate(worker.currentJobStartedAt)}</span>\`
+        : '-';
+      return \`
+        <tr class="hover:bg-gray-50">
+          <td class="px-4 py-2">
+            <span class="px-2 inline-flex text-xs leading-5 font-semibold rounded-full \${getWorkerStatusClass(worker.status)}">
+              \${worker.status}
+            </span>
+          </td>
+          <td class="px-4 py-2 font-mono">\${worker.id}<br><span class="text-xs text-gray-400">\${worker.executors.join(', ')}</span></td>
+          <td class="px-4 py-2">\${worker.host} / \${worker.pid}</td>
+          <td class="px-4 py-2 font-mono">\${job}</td>
+          <td class="px-4 py-2">\${formatDate(worker.heartbeatAt)}</td>
+          <td class="px-4 py-2">\${worker.attemptsStarted} (\${worker.attemptsSucceeded} / \${worker.attemptsFailed})</td>
+        </tr>
+      \`;
+    }
+
+    async function refreshWorkers() {
+      try {
+        const response = await fetch('/api/workers');
+        const data = await response.json();
+        document.getElementById('worker-list').innerHTML = data.items.map(renderWorker).join('');
+      } catch (error) {
+        console.error('Failed to fetch workers:', error);
+      }
+    }
+
     function renderJob(job) {
       return \`
         <li class="px-4 py-4 hover:bg-gray-50">
@@ -190,6 +257,7 @@ export class WebUIServer {
       eventSource.onmessage = (event) => {
         console.log('SSE event:', event.data);
         refreshJobs();
+        refreshWorkers();
       };
 
       eventSource.onerror = (error) => {
@@ -201,10 +269,12 @@ export class WebUIServer {
 
     // Initial load
     refreshJobs();
+    refreshWorkers();
     connectSSE();
 
-    // Auto refresh every 30 seconds
+    // Auto refresh every 30 seconds; workers more often, as heartbeats do not push events
     setInterval(refreshJobs, 30000);
+    setInterval(refreshWorkers, 10000);
   </script>
 </body>
 </html>
@@ -226,6 +296,18 @@ export class WebUIServer {
     res.end(JSON.stringify(result.value));
   }
 
+  private serveWorkers(res: ServerResponse): void {
+    const result = this.jobManager.listWorkers(false, 100, 0);
+    if (!result.ok) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: result.error }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(result.value));
+  }
+
   private serveJob(jobId: string, res: ServerResponse): void {
     try {
       const result = this.jobManager.get(jobId as never);
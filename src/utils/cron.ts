@@ -0,0 +1,178 @@
+/**
+ * Cron expressions
+ * Standard 5-field syntax (minute hour day-of-month month day-of-week), evaluated in UTC.
+ * Supports *, lists, ranges, steps, month and weekday names and @hourly/@daily/... macros.
+ */
+
+import { Result, Ok, Err } from '../models/result.js';
+
+export interface CronSchedule {
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  daysOfWeek: ReadonlySet<number>;
+  /** When both day fields are restricted, either may match (as in Vixie cron) */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: readonly string[];
+}
+
+const FIELDS: readonly CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/** Search horizon for the next run; covers Feb 29 of the next leap year */
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(token: string, field: CronField): number | null {
+  const index = field.names?.indexOf(token.toUpperCase()) ?? -1;
+  if (index >= 0) {
+    return field.min + index;
+  }
+  if (!/^\d+$/.test(token)) {
+    return null;
+  }
+  const value = Number.parseInt(token, 10);
+  return value >= field.min && value <= field.max ? value : null;
+}
+
+function parseField(source: string, field: CronField): Result<Set<number>, string> {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [range = '', stepText, extra] = part.split('/');
+    if (extra !== undefined) {
+      return Err(`Invalid ${field.name} field: ${source}`);
+    }
+
+    const step = stepText === undefined ? 1 : Number.parseInt(stepText, 10);
+    if (!Number.isInteger(step) || step <= 0 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      return Err(`Invalid step in ${field.name} field: ${source}`);
+    }
+
+    let start: number | null;
+    let end: number | null;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from = '', to = ''] = range.split('-');
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+    } else {
+      start = parseValue(range, field);
+      // "5/15" runs from 5 to the end of the range
+      end = stepText === undefined ? start : field.max;
+    }
+
+    if (start === null || end === null || start > end) {
+      return Err(`Invalid ${field.name} field: ${source}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return Ok(values);
+}
+
+export function parseCron(expression: string): Result<CronSchedule, string> {
+  const trimmed = expression.trim();
+  const parts = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    return Err(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  const sets: Set<number>[] = [];
+  for (const [index, field] of FIELDS.entries()) {
+    const result = parseField(parts[index] ?? '', field);
+    if (!result.ok) {
+      return result;
+    }
+    sets.push(result.value);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = sets;
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+    return Err(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return Ok({
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !(parts[2] ?? '').startsWith('*'),
+    daysOfWeekRestricted: !(parts[4] ?? '').startsWith('*'),
+  });
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First matching minute strictly after `after` (epoch ms), or null if none within five years
+ */
+export function nextCronTime(schedule: CronSchedule, after: number): number | null {
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  while (date.getTime() - after <= MAX_LOOKAHEAD_MS) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+
+  return null;
+}
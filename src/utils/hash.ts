@@ -29,35 +29,86 @@ export function generateJobId(): string {
   return `job_${timestamp}_${random}`;
 }
 
+export function generateScheduleId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 10);
+  return `sched_${timestamp}_${random}`;
+}
+
+/**
+ * Recursively sort object keys for deterministic serialization
+ */
+function canonicalize(obj: unknown): unknown {
+  if (obj === null || obj === undefined) {
+    return obj;
+  }
+  if (Array.isArray(obj)) {
+    return obj.map(canonicalize);
+  }
+  if (typeof obj === 'object') {
+    const sorted: Record<string, unknown> = {};
+    const keys = Object.keys(obj).sort();
+    for (const key of keys) {
+      sorted[key] = canonicalize((obj as Record<string, unknown>)[key]);
+    }
+    return sorted;
+  }
+  return obj;
+}
+
 /**
  * Create a stable, deterministic SHA-256 hash of a context envelope.
  * Uses JSON canonicalization to ensure identical contexts produce identical hashes.
  */
 export function stableHashContext(envelope: ContextEnvelope): string {
-  // Recursively sort object keys for deterministic serialization
-  const canonicalize = (obj: unknown): unknown => {
-    if (obj === null || obj === undefined) {
-      return obj;
-    }
-    if (Array.isArray(obj)) {
-      return obj.map(canonicalize);
-    }
-    if (typeof obj === 'object') {
-      const sorted: Record<string, unknown> = {};
-      const keys = Object.keys(obj).sort();
-      for (const key of keys) {
-        sorted[key] = canonicalize((obj as Record<string, unknown>)[key]);
-      }
-      return sorted;
-    }
-    return obj;
-  };
-
   const canonical = canonicalize(envelope);
   const content = JSON.stringify(canonical);
   return createHash('sha256').update(content, 'utf8').digest('hex');
 }
 
+/**
+ * Normalize an Ask prompt for cache lookups: Unicode NFC, trimmed, whitespace runs collapsed.
+ * Case and punctuation are kept since they can change the meaning of a question.
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+export interface DecisionKeyInput {
+  roleId: string;
+  roleVersion: string;
+  contextHash: string;
+  prompt: string;
+  /** JSON Schema source; formatting and key order do not affect the key */
+  outputSchema?: string;
+  /** Per-Ask prompt_overrides (system_append, output_schema) */
+  promptOverrides?: unknown;
+}
+
+/**
+ * Decision cache key for an Ask: SHA-256 over role, context hash, normalized prompt, output schema
+ * and prompt overrides
+ */
+export function computeDecisionKey(input: DecisionKeyInput): string {
+  let outputSchema: unknown = input.outputSchema?.trim() ?? null;
+  if (input.outputSchema !== undefined) {
+    try {
+      outputSchema = canonicalize(JSON.parse(input.outputSchema) as unknown);
+    } catch {
+      // Not JSON; key on the trimmed source
+    }
+  }
+
+  const content = JSON.stringify({
+    role: `${input.roleId}@${input.roleVersion}`,
+    context: input.contextHash,
+    prompt: normalizePrompt(input.prompt),
+    outputSchema,
+    promptOverrides: canonicalize(input.promptOverrides) ?? null,
+  });
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
 /**
  * Get a value from context envelope with default fallback.
  * Handles optional fields gracefully by applying standard defaults.
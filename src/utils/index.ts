@@ -4,3 +4,4 @@
 
 export * from './logger.js';
 export * from './hash.js';
+export * from './cron.js';
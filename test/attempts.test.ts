@@ -0,0 +1,94 @@
+/**
+ * Attempt history tests
+ */
+
+import { afterEach, describe, test, expect } from 'bun:test';
+import { rm } from 'fs/promises';
+import { AttemptsRepository } from '../src/db/attempts-repository.js';
+import { JobsRepository } from '../src/db/jobs-repository.js';
+import { MockExecutor } from '../src/executors/mock.js';
+import { MockFixtureSchema } from '../src/config/schema.js';
+import { asJobId, asLeaseOwner } from '../src/models/index.js';
+import { createMigratedDatabase } from './helpers/database.js';
+import {
+  createGitRepo,
+  createTestRelay,
+  greetingDiff,
+  localJobSpec,
+  runUntilSettled,
+  type TestRelay,
+} from './helpers/relay.js';
+
+describe('AttemptsRepository', () => {
+  test('numbers attempts per job and closes each one once', () => {
+    const db = createMigratedDatabase();
+    const jobId = asJobId('job_attempts');
+    const created = new JobsRepository(db).create({
+      id: jobId,
+      spec: localJobSpec({ path: '/repo', commit: 'a'.repeat(40) }, 'attempts'),
+      priority: 'P1',
+      ttlS: 3600,
+    });
+    expect(created.ok).toBe(true);
+
+    const attempts = new AttemptsRepository(db);
+    const first = attempts.start({ jobId, leaseOwner: asLeaseOwner('worker-a') });
+    expect(first.ok && first.value.attemptNo).toBe(1);
+    expect(attempts.finish({ jobId, attemptNo: 1, resultCode: 'TIMEOUT', reason: 'Too slow' })).toEqual({
+      ok: true,
+      value: true,
+    });
+    expect(attempts.finish({ jobId, attemptNo: 1, resultCode: 'SUCCEEDED' })).toEqual({ ok: true, value: false });
+
+    const second = attempts.start({ jobId, leaseOwner: asLeaseOwner('worker-b') });
+    expect(second.ok && second.value.attemptNo).toBe(2);
+    expect(attempts.finishOpen(jobId, 'LEASE_LOST')).toEqual({ ok: true, value: 1 });
+
+    const listed = attempts.listByJob(jobId);
+    expect(listed.ok && listed.value.map((attempt) => [attempt.leaseOwner, attempt.resultCode])).toEqual([
+      ['worker-a', 'TIMEOUT'],
+      ['worker-b', 'LEASE_LOST'],
+    ]);
+    expect(attempts.countByJobs([jobId, 'job_other'])).toEqual(new Map([[jobId, 2]]));
+  });
+});
+
+describe('Worker attempt recording', () => {
+  let relay: TestRelay | null = null;
+  let repoPath: string | null = null;
+
+  afterEach(async () => {
+    await relay?.cleanup();
+    if (repoPath) {
+      await rm(repoPath, { recursive: true, force: true });
+    }
+    relay = null;
+    repoPath = null;
+  });
+
+  test('records each run with its owner, outcome and timing; retries add attempts', async () => {
+    const repo = await createGitRepo({ 'hello.txt': 'hello\n' });
+    repoPath = repo.path;
+    const fixture = MockFixtureSchema.parse({ failFirst: 1, output: { diff: greetingDiff('hi') } });
+    relay = await createTestRelay([{ executor: new MockExecutor([fixture]), modelPatterns: ['mock-*'] }]);
+
+    const submitted = await relay.jobs.submit(
+      localJobSpec(repo, 'retry-once', { execution: { retry: { maxAttempts: 2, backoffBaseMs: 1 } } })
+    );
+    if (!submitted.ok) throw new Error(submitted.error);
+
+    expect(await runUntilSettled(relay, [submitted.value.jobId])).toEqual(['SUCCEEDED']);
+
+    const job = relay.jobs.get(asJobId(submitted.value.jobId));
+    if (!job.ok) throw new Error(job.error);
+    const [first, second] = job.value.attempts;
+
+    expect(job.value.attempt).toBe(2);
+    expect(first).toMatchObject({ attemptNo: 1, resultCode: 'EXECUTOR_ERROR', reason: 'Scripted mock failure' });
+    expect(second).toMatchObject({ attemptNo: 2, resultCode: 'SUCCEEDED' });
+    expect(first?.leaseOwner).toMatch(/^worker-/);
+    expect(second?.leaseOwner).toBe(first?.leaseOwner ?? '');
+    expect(first?.finishedAt).toBeGreaterThanOrEqual(first?.startedAt ?? Infinity);
+    expect(second?.startedAt).toBeGreaterThanOrEqual(first?.finishedAt ?? Infinity);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import { parseCron, nextCronTime } from '../src/utils/cron.js';
+
+function next(expression: string, after: string): string | null {
+  const schedule = parseCron(expression);
+  if (!schedule.ok) {
+    throw new Error(schedule.error);
+  }
+  const time = nextCronTime(schedule.value, Date.parse(after));
+  return time === null ? null : new Date(time).toISOString();
+}
+
+describe('parseCron', () => {
+  test('rejects malformed expressions', () => {
+    expect(parseCron('* * * *').ok).toBe(false);
+    expect(parseCron('60 * * * *').ok).toBe(false);
+    expect(parseCron('* * * 13 *').ok).toBe(false);
+    expect(parseCron('*/0 * * * *').ok).toBe(false);
+    expect(parseCron('5-1 * * * *').ok).toBe(false);
+    expect(parseCron('* * * * FOO').ok).toBe(false);
+  });
+
+  test('accepts macros, names and Sunday as 7', () => {
+    const daily = parseCron('@daily');
+    expect(daily.ok && [...daily.value.minutes]).toEqual([0]);
+
+    const weekdays = parseCron('0 9 * jan-mar MON-FRI');
+    expect(weekdays.ok && [...weekdays.value.months]).toEqual([1, 2, 3]);
+    expect(weekdays.ok && [...weekdays.value.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+
+    const sunday = parseCron('0 0 * * 7');
+    expect(sunday.ok && [...sunday.value.daysOfWeek]).toEqual([0]);
+  });
+});
+
+describe('nextCronTime', () => {
+  test('is strictly after the given time', () => {
+    expect(next('0 2 * * *', '2026-03-01T01:59:30Z')).toBe('2026-03-01T02:00:00.000Z');
+    expect(next('0 2 * * *', '2026-03-01T02:00:00Z')).toBe('2026-03-02T02:00:00.000Z');
+    expect(next('*/15 * * * *', '2026-03-01T10:07:00Z')).toBe('2026-03-01T10:15:00.000Z');
+    expect(next('@hourly', '2026-12-31T23:30:00Z')).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // The 13th, or any Friday: 2026-03-06 is a Friday
+    expect(next('0 0 13 * FRI', '2026-03-01T00:00:00Z')).toBe('2026-03-06T00:00:00.000Z');
+    expect(next('0 0 13 * *', '2026-03-01T00:00:00Z')).toBe('2026-03-13T00:00:00.000Z');
+  });
+
+  test('finds rare dates and gives up on impossible ones', () => {
+    expect(next('0 0 29 2 *', '2026-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+    expect(next('0 0 31 2 *', '2026-03-01T00:00:00Z')).toBeNull();
+  });
+});
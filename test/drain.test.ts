@@ -0,0 +1,160 @@
+/**
+ * Drain tests: requeueing cut-short attempts and the control endpoints
+ */
+
+import { afterEach, describe, test, expect } from 'bun:test';
+import { rm } from 'fs/promises';
+import { createServer } from 'net';
+import { EventsRepository, JobsRepository } from '../src/db/index.js';
+import { MockExecutor } from '../src/executors/mock.js';
+import { MockFixtureSchema } from '../src/config/schema.js';
+import { ControlServer } from '../src/services/control-server.js';
+import { asJobId, asLeaseOwner, type JobId, type JobState } from '../src/models/index.js';
+import {
+  createGitRepo,
+  createTestRelay,
+  greetingDiff,
+  localJobSpec,
+  silentLogger,
+  type TestRelay,
+} from './helpers/relay.js';
+
+async function waitFor(condition: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('Worker drain', () => {
+  let relay: TestRelay | null = null;
+  let repoPath: string | null = null;
+
+  afterEach(async () => {
+    relay?.worker.stop();
+    await relay?.cleanup();
+    if (repoPath) {
+      await rm(repoPath, { recursive: true, force: true });
+    }
+    relay = null;
+    repoPath = null;
+  });
+
+  /**
+   * Start a job whose executor runs far longer than the test, and wait until it has been leased
+   */
+  async function startLongJob(): Promise<{ relay: TestRelay; jobId: JobId; running: Promise<void> }> {
+    const repo = await createGitRepo({ 'hello.txt': 'hello\n' });
+    repoPath = repo.path;
+    const fixture = MockFixtureSchema.parse({ delayMs: 30_000, output: { diff: greetingDiff('hi') } });
+    relay = await createTestRelay([{ executor: new MockExecutor([fixture]), modelPatterns: ['mock-*'] }]);
+
+    const submitted = await relay.jobs.submit(localJobSpec(repo, 'long-running'));
+    if (!submitted.ok) throw new Error(submitted.error);
+    const jobId = asJobId(submitted.value.jobId);
+
+    const running = relay.worker.start();
+    const current = relay;
+    await waitFor(() => {
+      const job = current.jobs.get(jobId);
+      return job.ok && job.value.state === 'RUNNING';
+    });
+    return { relay: current, jobId, running };
+  }
+
+  function jobState(relay: TestRelay, jobId: JobId): JobState | null {
+    const job = new JobsRepository(relay.db).getById(jobId);
+    return job.ok ? job.value.state : null;
+  }
+
+  test('an attempt still running after the grace period is stopped and its job requeued', async () => {
+    const { relay, jobId, running } = await startLongJob();
+
+    await relay.worker.drain(50);
+    await running;
+
+    expect(jobState(relay, jobId)).toBe('QUEUED');
+    const job = relay.jobs.get(jobId);
+    expect(job.ok && job.value.summary).toBe('Requeued: worker drained before the attempt finished');
+    expect(job.ok && job.value.attempts.map((attempt) => attempt.resultCode)).toEqual(['DRAINED']);
+
+    const events = new EventsRepository(relay.db).listByJob(jobId);
+    expect(events.ok && events.value.map((event) => event.type)).toContain('job.requeued');
+  });
+
+  test('a job waiting on an answer is requeued through STALE', async () => {
+    const { relay, jobId, running } = await startLongJob();
+    const jobsRepo = new JobsRepository(relay.db);
+    const leased = jobsRepo.getById(jobId);
+    if (!leased.ok || leased.value.leaseOwner === null) throw new Error('Job is not leased');
+    expect(
+      jobsRepo.updateState({
+        id: jobId,
+        state: 'WAITING_ON_ANSWER',
+        expectedState: 'RUNNING',
+        leaseOwner: asLeaseOwner(leased.value.leaseOwner),
+      })
+    ).toEqual({ ok: true, value: true });
+    const waiting = jobsRepo.getById(jobId);
+
+    await relay.worker.drain(50);
+    await running;
+
+    expect(jobState(relay, jobId)).toBe('QUEUED');
+    // WAITING_ON_ANSWER → STALE → QUEUED
+    const requeued = jobsRepo.getById(jobId);
+    expect(requeued.ok && waiting.ok && requeued.value.stateVersion - waiting.value.stateVersion).toBe(2);
+    const job = relay.jobs.get(jobId);
+    expect(job.ok && job.value.attempts.map((attempt) => attempt.resultCode)).toEqual(['DRAINED']);
+  });
+});
+
+describe('ControlServer', () => {
+  async function freePort(): Promise<number> {
+    const server = createServer();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address();
+    await new Promise((resolve) => server.close(resolve));
+    if (address === null || typeof address === 'string') throw new Error('No port');
+    return address.port;
+  }
+
+  test('serves health and accepts a local drain request', async () => {
+    let draining = false;
+    const port = await freePort();
+    const server = new ControlServer(silentLogger, { port }, {
+      isDraining: () => draining,
+      drain: () => {
+        draining = true;
+      },
+    });
+    server.start();
+    const origin = `http://127.0.0.1:${port}`;
+
+    try {
+      // start() does not wait for the socket to listen
+      let health = await fetch(`${origin}/health`).catch(() => null);
+      for (let retry = 0; health === null && retry < 50; retry++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        health = await fetch(`${origin}/health`).catch(() => null);
+      }
+      expect(health?.status).toBe(200);
+      expect(await health?.json()).toEqual({ status: 'ok', draining: false });
+
+      const drained = await fetch(`${origin}/drain`, { method: 'POST' });
+      expect(drained.status).toBe(202);
+      expect(draining).toBe(true);
+
+      const unhealthy = await fetch(`${origin}/health`);
+      expect(unhealthy.status).toBe(503);
+      expect(await unhealthy.json()).toEqual({ status: 'draining', draining: true });
+
+      expect((await fetch(`${origin}/asks`, { method: 'POST' })).status).toBe(404);
+    } finally {
+      server.stop();
+    }
+  });
+});
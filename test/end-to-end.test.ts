@@ -0,0 +1,115 @@
+/**
+ * End-to-end: submit → lease → Ask → Answer → artifacts → SUCCEEDED, all in process
+ */
+
+import { afterEach, describe, test, expect } from 'bun:test';
+import { rm } from 'fs/promises';
+import { ArtifactsRepository } from '../src/db/artifacts-repository.js';
+import { MockExecutor } from '../src/executors/mock.js';
+import { MockFixtureSchema } from '../src/config/schema.js';
+import { asJobId } from '../src/models/index.js';
+import {
+  createGitRepo,
+  createTestRelay,
+  greetingDiff,
+  localJobSpec,
+  runUntilSettled,
+  type TestRelay,
+} from './helpers/relay.js';
+
+/**
+ * Answers every Ask at once with `{ approved: true }` and keeps the payloads it received
+ */
+function startAskAnswerStub() {
+  const asks: any[] = [];
+  const server = Bun.serve({
+    port: 0,
+    fetch: async (request) => {
+      const { pathname } = new URL(request.url);
+      if (request.method === 'POST' && pathname === '/asks') {
+        const ask = await request.json();
+        asks.push(ask);
+        return Response.json({ askId: ask.ask_id }, { status: 202 });
+      }
+
+      const ask = asks.find((candidate) => pathname === `/asks/${candidate.ask_id}/answer`);
+      if (request.method === 'GET' && ask) {
+        return Response.json({
+          askId: ask.ask_id,
+          jobId: ask.job_id,
+          stepId: ask.step_id,
+          status: 'ANSWERED',
+          answerJson: { approved: true },
+        });
+      }
+      return new Response('Not found', { status: 404 });
+    },
+  });
+  return { asks, origin: `http://localhost:${server.port}`, stop: () => server.stop(true) };
+}
+
+describe('End-to-end job run', () => {
+  let relay: TestRelay | null = null;
+  let askAnswer: ReturnType<typeof startAskAnswerStub> | null = null;
+  let repoPath: string | null = null;
+
+  afterEach(async () => {
+    await relay?.cleanup();
+    askAnswer?.stop();
+    if (repoPath) {
+      await rm(repoPath, { recursive: true, force: true });
+    }
+    relay = null;
+    askAnswer = null;
+    repoPath = null;
+  });
+
+  test('a job that asks a question succeeds with its artifacts and one attempt', async () => {
+    const repo = await createGitRepo({ 'hello.txt': 'hello\n' });
+    repoPath = repo.path;
+    askAnswer = startAskAnswerStub();
+    const fixture = MockFixtureSchema.parse({
+      ask: { type: 'POLICY_DECISION', prompt: 'May I change the greeting?' },
+      output: { diff: greetingDiff('hi'), testPlan: 'cat hello.txt', notes: 'Greeting shortened' },
+    });
+    relay = await createTestRelay([{ executor: new MockExecutor([fixture]), modelPatterns: ['mock-*'] }], {
+      askAnswerOrigin: askAnswer.origin,
+    });
+
+    const submitted = await relay.jobs.submit(localJobSpec(repo, 'end-to-end'));
+    if (!submitted.ok) throw new Error(submitted.error);
+    const jobId = asJobId(submitted.value.jobId);
+
+    expect(await runUntilSettled(relay, [jobId])).toEqual(['SUCCEEDED']);
+
+    // The executor's Ask reached the Ask/Answer side with the job's identity
+    expect(askAnswer.asks).toHaveLength(1);
+    expect(askAnswer.asks[0]).toMatchObject({
+      job_id: jobId,
+      step_id: 'mock',
+      ask_type: 'POLICY_DECISION',
+      prompt: 'May I change the greeting?',
+      context_envelope: { job_snapshot: { repo: repo.path, commit_sha: repo.commit } },
+    });
+
+    const artifacts = new ArtifactsRepository(relay.db).listByJob(jobId);
+    expect(artifacts.ok && artifacts.value.map((artifact) => artifact.kind).sort()).toEqual([
+      'logs.txt',
+      'out.md',
+      'patch.diff',
+    ]);
+
+    const patch = await relay.artifacts.read(jobId, 'patch.diff');
+    expect(patch).toEqual({ ok: true, value: greetingDiff('hi') });
+    const out = await relay.artifacts.read(jobId, 'out.md');
+    expect(out.ok && out.value).toContain('cat hello.txt');
+    const logs = await relay.artifacts.read(jobId, 'logs.txt');
+    expect(logs.ok && logs.value).toContain('ask answered: {"approved":true}');
+
+    const job = relay.jobs.get(jobId);
+    if (!job.ok) throw new Error(job.error);
+    expect(job.value.attempts).toHaveLength(1);
+    expect(job.value.attempts[0]).toMatchObject({ attemptNo: 1, resultCode: 'SUCCEEDED' });
+    expect(job.value.attempts[0]?.finishedAt).toBeGreaterThanOrEqual(job.value.attempts[0]?.startedAt ?? Infinity);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Executor routing tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  createExecutors,
+  matchesModelPattern,
+  resolveExecutorChain,
+  resolveModel,
+  selectExecutor,
+  shouldFallback,
+  type ExecutorRoute,
+} from '../src/executors/factory.js';
+import { executorError, type Executor } from '../src/executors/base.js';
+import { renderCommandArgs } from '../src/executors/command.js';
+import { Ok } from '../src/models/result.js';
+import { ExecutionSchema } from '../src/models/schemas.js';
+import { ConfigSchema } from '../src/config/schema.js';
+
+function route(name: string, modelPatterns: string[]): ExecutorRoute {
+  const executor: Executor = {
+    name,
+    execute: () => Promise.resolve(Ok({ diff: '', testPlan: '', notes: '', rawOutput: '' })),
+  };
+  return { executor, modelPatterns };
+}
+
+describe('Executor Routing', () => {
+  const codex = route('codex-cli', ['gpt-*', 'o3*']);
+  const claude = route('claude-code', ['claude-*']);
+  const routes = [codex, claude];
+
+  test('matchesModelPattern supports globs case-insensitively', () => {
+    expect(matchesModelPattern('gpt-4o', 'gpt-*')).toBe(true);
+    expect(matchesModelPattern('Claude-Sonnet-4', 'claude-*')).toBe(true);
+    expect(matchesModelPattern('o3-mini', 'o?-mini')).toBe(true);
+    expect(matchesModelPattern('gpt.4', 'gpt-*')).toBe(false);
+  });
+
+  test('selectExecutor routes by preferredModel', () => {
+    const result = selectExecutor(routes, { preferredModel: 'claude-sonnet-4' });
+    expect(result.ok && result.value.name).toBe('claude-code');
+  });
+
+  test('selectExecutor honours an explicit executor', () => {
+    const result = selectExecutor(routes, { preferredModel: 'gpt-4', executor: 'claude-code' });
+    expect(result.ok && result.value.name).toBe('claude-code');
+  });
+
+  test('selectExecutor fails when nothing matches', () => {
+    expect(selectExecutor(routes, { preferredModel: 'llama-3' }).ok).toBe(false);
+    expect(selectExecutor(routes, { preferredModel: 'gpt-4', executor: 'unknown' }).ok).toBe(false);
+    expect(selectExecutor([], { preferredModel: 'gpt-4' }).ok).toBe(false);
+  });
+
+  test('resolveModel keeps a model only for the executor that serves it', () => {
+    expect(resolveModel(routes, claude.executor, 'claude-opus-4')).toBe('claude-opus-4');
+    expect(resolveModel(routes, claude.executor, 'gpt-4')).toBe('');
+    expect(resolveModel(routes, codex.executor, '  ')).toBe('');
+  });
+
+  test('a claude-only deployment runs jobs without preferredModel on its default model', () => {
+    const config = ConfigSchema.parse({
+      runtime: {},
+      server: {},
+      repoCache: {},
+      askAnswer: { runner: {} },
+      storage: {},
+      policies: { generation: {} },
+      executors: { codexCli: { enabled: false }, claudeCode: { enabled: true }, openaiCompatible: {}, mock: {}, fallback: {} },
+      notify: {},
+      logging: {},
+    });
+    const claudeOnly = createExecutors(config);
+    const execution = ExecutionSchema.parse({ sandbox: 'read-only', askPolicy: 'untrusted' });
+
+    const selected = selectExecutor(claudeOnly, execution);
+    expect(selected.ok && selected.value.name).toBe('claude-code');
+    if (selected.ok) {
+      expect(resolveModel(claudeOnly, selected.value, execution.preferredModel)).toBe('');
+    }
+  });
+
+  test('resolveExecutorChain appends enabled fallbacks after the routed executor', () => {
+    const chain = resolveExecutorChain(routes, claude.executor, ['codex-cli', 'claude-code', 'disabled']);
+    expect(chain.map((executor) => executor.name)).toEqual(['claude-code', 'codex-cli']);
+  });
+
+  test('shouldFallback only follows artifact and executor errors', () => {
+    expect(shouldFallback(executorError('BAD_ARTIFACTS', 'missing sections'))).toBe(true);
+    expect(shouldFallback(executorError('EXECUTOR_ERROR', 'exit 1'))).toBe(true);
+    expect(shouldFallback(executorError('TIMEOUT', 'too slow'))).toBe(false);
+  });
+
+  test('renderCommandArgs substitutes placeholders', () => {
+    const args = renderCommandArgs(['--model', '{model}', '--message={prompt}', '{workdir}/src', '{other}'], {
+      prompt: 'fix it',
+      model: 'gpt-4',
+      workdir: '/tmp/job',
+    });
+    expect(args).toEqual(['--model', 'gpt-4', '--message=fix it', '/tmp/job/src', '{other}']);
+  });
+});
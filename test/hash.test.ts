@@ -3,7 +3,7 @@
  */
 
 import { describe, test, expect } from 'bun:test';
-import { hashJobSpec, generateJobId } from '../src/utils/hash.js';
+import { hashJobSpec, generateJobId, computeDecisionKey, normalizePrompt } from '../src/utils/hash.js';
 
 describe('Hash Utilities', () => {
   test('hashJobSpec generates consistent hash', () => {
@@ -48,4 +48,39 @@ describe('Hash Utilities', () => {
     expect(id1).toStartWith('job_');
     expect(id2).toStartWith('job_');
   });
+
+  test('normalizePrompt collapses whitespace but keeps case', () => {
+    expect(normalizePrompt('  Which   table\n\tshould I use? ')).toBe('Which table should I use?');
+    expect(normalizePrompt('Use TABLE A')).not.toBe(normalizePrompt('use table a'));
+  });
+
+  test('computeDecisionKey ignores prompt whitespace and schema formatting', () => {
+    const input = {
+      roleId: 'role.clarifier',
+      roleVersion: '1',
+      contextHash: 'c'.repeat(64),
+      prompt: 'Which table?',
+      outputSchema: '{"type":"object","required":["choice"]}',
+    };
+
+    const key = computeDecisionKey(input);
+    expect(key).toHaveLength(64);
+    expect(
+      computeDecisionKey({
+        ...input,
+        prompt: ' Which\n table? ',
+        outputSchema: '{ "required": ["choice"],\n  "type": "object" }',
+      })
+    ).toBe(key);
+  });
+
+  test('computeDecisionKey changes with role version, context, schema and overrides', () => {
+    const input = { roleId: 'role.clarifier', roleVersion: '1', contextHash: 'c'.repeat(64), prompt: 'Which table?' };
+    const key = computeDecisionKey(input);
+
+    expect(computeDecisionKey({ ...input, roleVersion: '2' })).not.toBe(key);
+    expect(computeDecisionKey({ ...input, contextHash: 'd'.repeat(64) })).not.toBe(key);
+    expect(computeDecisionKey({ ...input, outputSchema: '{"type":"array"}' })).not.toBe(key);
+    expect(computeDecisionKey({ ...input, promptOverrides: { system_append: 'Be brief' } })).not.toBe(key);
+  });
 });
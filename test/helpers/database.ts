@@ -0,0 +1,73 @@
+/**
+ * In-memory SQLite for tests
+ * better-sqlite3 is a native Node addon that Bun cannot load, so tests run the repositories
+ * against bun:sqlite behind the subset of the better-sqlite3 API they use.
+ */
+
+import { Database as BunDatabase, type SQLQueryBindings } from 'bun:sqlite';
+import type { Database } from 'better-sqlite3';
+import { Migrator } from '../../src/db/migrator.js';
+
+type Bindings = SQLQueryBindings[];
+
+class TestDatabase {
+  private readonly db: BunDatabase;
+
+  constructor(path: string) {
+    this.db = new BunDatabase(path, { strict: true });
+  }
+
+  prepare(sql: string) {
+    const stmt = this.db.prepare(sql);
+    return {
+      get: (...params: Bindings) => stmt.get(...params) ?? undefined,
+      all: (...params: Bindings) => stmt.all(...params),
+      run: (...params: Bindings) => {
+        const result = stmt.run(...params);
+        return { changes: result.changes, lastInsertRowid: result.lastInsertRowid };
+      },
+    };
+  }
+
+  exec(sql: string): void {
+    this.db.exec(sql);
+  }
+
+  pragma(source: string, options: { simple?: boolean } = {}): unknown {
+    const rows = this.db.prepare(`PRAGMA ${source}`).all() as Record<string, unknown>[];
+    if (options.simple) {
+      const first = rows[0];
+      return first ? Object.values(first)[0] : undefined;
+    }
+    return rows;
+  }
+
+  transaction<A extends unknown[], R>(fn: (...args: A) => R) {
+    return this.db.transaction(fn);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Empty in-memory database with foreign keys enforced, as createConnection sets up
+ */
+export function createTestDatabase(): Database {
+  const db = new TestDatabase(':memory:') as unknown as Database;
+  db.pragma('foreign_keys = ON');
+  return db;
+}
+
+/**
+ * In-memory database with every migration applied
+ */
+export function createMigratedDatabase(): Database {
+  const db = createTestDatabase();
+  const result = new Migrator(db).up();
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return db;
+}
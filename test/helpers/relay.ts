@@ -0,0 +1,137 @@
+/**
+ * A job manager and worker on an in-memory database, for end-to-end tests
+ */
+
+import { execa } from 'execa';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import pino from 'pino';
+import type { Database } from 'better-sqlite3';
+import { JobManager } from '../../src/core/job-manager.js';
+import { Worker, type WorkerConfig } from '../../src/core/worker.js';
+import { WorkSignal } from '../../src/core/work-signal.js';
+import type { ExecutorRoute } from '../../src/executors/index.js';
+import { ArtifactsService } from '../../src/services/artifacts.js';
+import { RepoCache } from '../../src/services/repo-cache.js';
+import { JobSpecSchema, asJobId, isTerminalState, type JobSpec, type JobState } from '../../src/models/index.js';
+import { createMigratedDatabase } from './database.js';
+
+export const silentLogger = pino({ level: 'silent' });
+
+export interface TestRelay {
+  db: Database;
+  jobs: JobManager;
+  worker: Worker;
+  artifacts: ArtifactsService;
+  cleanup(): Promise<void>;
+}
+
+export async function createTestRelay(
+  executors: readonly ExecutorRoute[],
+  config: Partial<WorkerConfig> = {}
+): Promise<TestRelay> {
+  const root = await mkdtemp(join(tmpdir(), 'relay-test-'));
+  const db = createMigratedDatabase();
+  const artifacts = new ArtifactsService(join(root, 'artifacts'));
+  const repoCache = new RepoCache({ cacheDir: join(root, 'repos'), gcIntervalMs: 60_000, maxIdleMs: 60_000 }, silentLogger);
+  const workSignal = new WorkSignal();
+
+  const jobs = new JobManager(db, artifacts, silentLogger, undefined, workSignal);
+  const worker = new Worker(
+    db,
+    artifacts,
+    repoCache,
+    executors,
+    {
+      leaseTtlMs: 30_000,
+      heartbeatIntervalMs: 1_000,
+      pollIntervalMs: 10,
+      maxPollIntervalMs: 50,
+      concurrencyLimit: 10,
+      priorityAgingMs: 0,
+      executorFallback: [],
+      ...config,
+    },
+    silentLogger,
+    workSignal
+  );
+
+  return {
+    db,
+    jobs,
+    worker,
+    artifacts,
+    cleanup: async () => {
+      db.close();
+      await rm(root, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Run the worker until every given job is terminal (or the deadline passes), then stop it
+ */
+export async function runUntilSettled(relay: TestRelay, jobIds: readonly string[], timeoutMs = 10_000): Promise<JobState[]> {
+  const states = (): JobState[] =>
+    jobIds.map((jobId) => {
+      const result = relay.jobs.get(asJobId(jobId));
+      if (!result.ok) {
+        throw new Error(result.error);
+      }
+      return result.value.state;
+    });
+
+  const running = relay.worker.start();
+  const deadline = Date.now() + timeoutMs;
+  while (!states().every(isTerminalState) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  relay.worker.stop();
+  await running;
+  return states();
+}
+
+/**
+ * A git repository with one commit of the given files
+ */
+export async function createGitRepo(files: Record<string, string>): Promise<{ path: string; commit: string }> {
+  const path = await mkdtemp(join(tmpdir(), 'relay-repo-'));
+  await execa('git', ['init', '--quiet', '--initial-branch=main', path]);
+  for (const [name, content] of Object.entries(files)) {
+    await writeFile(join(path, name), content, 'utf-8');
+  }
+  await execa('git', ['add', '.'], { cwd: path });
+  await execa(
+    'git',
+    ['-c', 'user.name=Test', '-c', 'user.email=test@localhost', 'commit', '--quiet', '-m', 'Initial commit'],
+    { cwd: path }
+  );
+  const { stdout } = await execa('git', ['rev-parse', 'HEAD'], { cwd: path });
+  return { path, commit: stdout.trim() };
+}
+
+/**
+ * A job on a local repository; `overrides.execution` is merged into the defaults
+ */
+export function localJobSpec(
+  repo: { path: string; commit: string },
+  idempotencyKey: string,
+  overrides: { execution?: Record<string, unknown>; dependsOn?: string[] } = {}
+): JobSpec {
+  return JobSpecSchema.parse({
+    repo: { type: 'local', path: repo.path, baseBranch: 'main', baselineCommit: repo.commit },
+    task: { title: `Task ${idempotencyKey}`, description: 'Edit the greeting', acceptance: [] },
+    scope: { readPaths: ['.'] },
+    outputContract: ['DIFF', 'TEST_PLAN', 'NOTES'],
+    execution: { preferredModel: 'mock-1', sandbox: 'read-only', askPolicy: 'untrusted', ...overrides.execution },
+    idempotencyKey,
+    ...(overrides.dependsOn ? { dependsOn: overrides.dependsOn } : {}),
+  });
+}
+
+/** Replaces the single line of hello.txt from createGitRepo({ 'hello.txt': 'hello\n' }) */
+export function greetingDiff(to: string, from = 'hello'): string {
+  return ['--- a/hello.txt', '+++ b/hello.txt', '@@ -1 +1 @@', `-${from}`, `+${to}`, ''].join('\n');
+}
@@ -0,0 +1,39 @@
+/**
+ * Job dependency graph tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { orderJobGraph } from '../src/core/job-graph.js';
+import { JobSpecSchema, type JobSpec } from '../src/models/schemas.js';
+
+function spec(idempotencyKey: string, dependsOn?: string[]): JobSpec {
+  return JobSpecSchema.parse({
+    repo: { type: 'git', url: 'https://github.com/test/repo.git', baseBranch: 'main', baselineCommit: 'a'.repeat(40) },
+    task: { title: idempotencyKey, description: 'D', acceptance: [] },
+    scope: { readPaths: ['src/'] },
+    outputContract: ['DIFF', 'TEST_PLAN', 'NOTES'],
+    execution: { sandbox: 'read-only', askPolicy: 'untrusted' },
+    idempotencyKey,
+    ...(dependsOn ? { dependsOn } : {}),
+  });
+}
+
+describe('Job Graph', () => {
+  test('orderJobGraph puts sibling parents first', () => {
+    const result = orderJobGraph([
+      spec('tests', ['code']),
+      spec('code', ['migration', 'job_existing']),
+      spec('migration'),
+    ]);
+
+    expect(result.ok && result.value.map((job) => job.idempotencyKey)).toEqual(['migration', 'code', 'tests']);
+  });
+
+  test('orderJobGraph rejects cycles and duplicate keys', () => {
+    const cycle = orderJobGraph([spec('a', ['c']), spec('b', ['a']), spec('c', ['b'])]);
+    expect(!cycle.ok && cycle.error).toBe('Dependency cycle: a -> c -> b -> a');
+
+    const duplicate = orderJobGraph([spec('a'), spec('a')]);
+    expect(duplicate.ok).toBe(false);
+  });
+});
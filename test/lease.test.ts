@@ -0,0 +1,99 @@
+/**
+ * Lease acquisition tests: concurrency groups and dependencies
+ */
+
+import { beforeEach, describe, test, expect } from 'bun:test';
+import { JobManager } from '../src/core/job-manager.js';
+import { JobsRepository } from '../src/db/index.js';
+import { ArtifactsService } from '../src/services/artifacts.js';
+import { asJobId, asLeaseOwner, type JobId } from '../src/models/index.js';
+import { createMigratedDatabase } from './helpers/database.js';
+import { localJobSpec, silentLogger } from './helpers/relay.js';
+
+const repo = { path: '/repo', commit: 'a'.repeat(40) };
+
+let jobs: JobManager;
+let jobsRepo: JobsRepository;
+
+beforeEach(() => {
+  const db = createMigratedDatabase();
+  jobs = new JobManager(db, new ArtifactsService('/tmp/unused-artifacts'), silentLogger);
+  jobsRepo = new JobsRepository(db);
+});
+
+async function submit(
+  key: string,
+  execution: Record<string, unknown> = {},
+  dependsOn?: string[]
+): Promise<JobId> {
+  const result = await jobs.submit(localJobSpec(repo, key, { execution, ...(dependsOn ? { dependsOn } : {}) }));
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return asJobId(result.value.jobId);
+}
+
+function lease(concurrencyLimit = 10): JobId | null {
+  const leased = jobsRepo.acquireLease({
+    owner: asLeaseOwner('worker-a'),
+    leaseTtlMs: 30_000,
+    concurrencyLimit,
+    priorityAgingMs: 0,
+  });
+  if (!leased.ok) {
+    throw new Error(leased.error);
+  }
+  return leased.value;
+}
+
+function finish(jobId: JobId, state: 'SUCCEEDED' | 'FAILED'): void {
+  expect(
+    jobsRepo.updateState({ id: jobId, state, expectedState: 'RUNNING', leaseOwner: asLeaseOwner('worker-a') })
+  ).toEqual({ ok: true, value: true });
+}
+
+describe('acquireLease', () => {
+  test('a group at its limit is skipped while other groups are still leased', async () => {
+    const first = await submit('group-a-1', { concurrencyKey: 'group-a', concurrencyLimit: 1, priority: 'P0' });
+    const second = await submit('group-a-2', { concurrencyKey: 'group-a', concurrencyLimit: 1, priority: 'P0' });
+    const other = await submit('group-b-1', { concurrencyKey: 'group-b', concurrencyLimit: 1, priority: 'P2' });
+
+    const leased = lease();
+    expect([first, second]).toContain(leased as JobId);
+    // The other group-a job outranks group-b but has no free slot
+    expect(lease()).toBe(other);
+    expect(lease()).toBeNull();
+
+    finish(leased as JobId, 'SUCCEEDED');
+    expect(lease()).toBe(leased === first ? second : first);
+  });
+
+  test('the server-wide limit applies when a job sets no limit of its own', async () => {
+    await submit('shared-1', { concurrencyKey: 'shared' });
+    await submit('shared-2', { concurrencyKey: 'shared' });
+
+    expect(lease(1)).not.toBeNull();
+    expect(lease(1)).toBeNull();
+    expect(lease(2)).not.toBeNull();
+  });
+
+  test('a child is not leased until its parent SUCCEEDED', async () => {
+    const parent = await submit('parent', { priority: 'P2' });
+    const child = await submit('child', { priority: 'P0' }, [parent]);
+
+    expect(lease()).toBe(parent);
+    expect(lease()).toBeNull();
+
+    finish(parent, 'SUCCEEDED');
+    expect(lease()).toBe(child);
+  });
+
+  test('a child of a failed parent is never leased', async () => {
+    const parent = await submit('parent');
+    await submit('child', {}, [parent]);
+
+    expect(lease()).toBe(parent);
+    finish(parent, 'FAILED');
+    expect(lease()).toBeNull();
+  });
+});
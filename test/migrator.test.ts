@@ -0,0 +1,98 @@
+/**
+ * Schema migrator tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Migrator, type Migration } from '../src/db/migrator.js';
+import { migrations } from '../src/db/migrations/index.js';
+import { createTestDatabase } from './helpers/database.js';
+
+const first: Migration = { version: 1, name: 'first', up: 'CREATE TABLE first (id INTEGER PRIMARY KEY);' };
+const second: Migration = { version: 2, name: 'second', up: 'CREATE TABLE second (id INTEGER PRIMARY KEY);' };
+
+describe('Migrator', () => {
+  test('status and up on a fresh database', () => {
+    const migrator = new Migrator(createTestDatabase());
+
+    const before = migrator.status();
+    expect(before.ok && before.value.every((status) => status.state === 'pending')).toBe(true);
+
+    const applied = migrator.up();
+    expect(applied.ok && applied.value.map((status) => status.version)).toEqual(
+      migrations.map((migration) => migration.version)
+    );
+
+    const after = migrator.status();
+    expect(after.ok && after.value.every((status) => status.state === 'applied')).toBe(true);
+    expect(migrator.up()).toEqual({ ok: true, value: [] });
+  });
+
+  test('verify reports checksum mismatches and unknown steps', () => {
+    const db = createTestDatabase();
+    expect(new Migrator(db, [first, second]).up().ok).toBe(true);
+
+    const modified = new Migrator(db, [{ ...first, up: `${first.up} -- edited` }, second]).verify();
+    expect(modified.ok ? null : modified.error).toContain('migration 1 (first) changed after it was applied');
+
+    const unknown = new Migrator(db, [first]).verify();
+    expect(unknown.ok ? null : unknown.error).toContain('migration 2 (second) is applied but unknown to this build');
+
+    // up refuses to run on top of a schema that does not verify
+    expect(new Migrator(db, [{ ...first, up: 'SELECT 1;' }, second]).up().ok).toBe(false);
+  });
+
+  test('a failing step is rolled back and stays pending', () => {
+    const db = createTestDatabase();
+    const failing: Migration = {
+      version: 2,
+      name: 'failing',
+      up: 'CREATE TABLE partial (id INTEGER); INSERT INTO missing_table VALUES (1);',
+    };
+    const migrator = new Migrator(db, [first, failing]);
+
+    const result = migrator.up();
+    expect(result.ok ? null : result.error).toContain('Migration 2 (failing) failed');
+
+    const tables = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[];
+    expect(tables.map((table) => table.name)).not.toContain('partial');
+
+    const status = migrator.status();
+    expect(status.ok && status.value.map((step) => step.state)).toEqual(['applied', 'pending']);
+  });
+
+  test('0002 rebuilds a legacy jobs table without losing rows', () => {
+    const db = createTestDatabase();
+    expect(new Migrator(db, migrations.slice(0, 1)).up().ok).toBe(true);
+
+    const spec = {
+      repo: { type: 'git', url: 'https://example.com/repo.git', baseBranch: 'main', baselineCommit: 'a'.repeat(40) },
+      task: { title: 'Legacy', description: 'Created before 0002', acceptance: [] },
+      scope: { readPaths: ['src/'] },
+      execution: { preferredModel: 'gpt-4' },
+    };
+    db.prepare(`
+      INSERT INTO jobs (id, idempotency_key, state, created_at, spec_json)
+      VALUES ('job_legacy', 'legacy-key', 'SUCCEEDED', 1, @spec)
+    `).run({ spec: JSON.stringify(spec) });
+    db.prepare(`
+      INSERT INTO artifacts (job_id, kind, uri, digest, size, created_at)
+      VALUES ('job_legacy', 'patch.diff', 'file:///tmp/patch.diff', 'digest', 10, 1)
+    `).run();
+
+    expect(new Migrator(db).up().ok).toBe(true);
+
+    const row = db.prepare("SELECT repo_json, task_json, state FROM jobs WHERE id = 'job_legacy'").get() as {
+      repo_json: string;
+      task_json: string;
+      state: string;
+    };
+    expect(row.state).toBe('SUCCEEDED');
+    expect(JSON.parse(row.repo_json)).toEqual(spec.repo);
+    expect(JSON.parse(row.task_json)).toEqual(spec.task);
+
+    const artifacts = db.prepare("SELECT COUNT(*) AS count FROM artifacts WHERE job_id = 'job_legacy'").get() as {
+      count: number;
+    };
+    expect(artifacts.count).toBe(1);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { MockExecutor, findMockFixture } from '../src/executors/mock.js';
+import { MockFixtureSchema } from '../src/config/schema.js';
+import { JobSpecSchema } from '../src/models/schemas.js';
+
+const spec = JobSpecSchema.parse({
+  repo: { type: 'git', url: 'https://github.com/test/repo.git', baseBranch: 'main', baselineCommit: 'a'.repeat(40) },
+  task: { title: 'Add a helper', description: 'Add a helper function', acceptance: [] },
+  scope: { readPaths: ['src/'] },
+  outputContract: ['DIFF', 'TEST_PLAN', 'NOTES'],
+  execution: { preferredModel: 'mock-1', sandbox: 'read-only', askPolicy: 'untrusted' },
+  idempotencyKey: 'mock-test',
+});
+
+const output = { diff: '--- a/x\n+++ b/x\n', testPlan: 'Run tests' };
+
+describe('MockExecutor', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('findMockFixture prefers idempotency key, then task title, then a catch-all', () => {
+    const catchAll = MockFixtureSchema.parse({ output });
+    const byTitle = MockFixtureSchema.parse({ taskTitle: 'Add a helper', output });
+    const byKey = MockFixtureSchema.parse({ idempotencyKey: 'mock-test', output });
+
+    expect(findMockFixture([catchAll, byTitle, byKey], spec)).toBe(byKey);
+    expect(findMockFixture([catchAll, byTitle], spec)).toBe(byTitle);
+    expect(findMockFixture([catchAll], spec)).toBe(catchAll);
+    expect(findMockFixture([MockFixtureSchema.parse({ taskTitle: 'Other', output })], spec)).toBeUndefined();
+  });
+
+  test('fails the first runs, then replays the output', async () => {
+    const executor = new MockExecutor([
+      MockFixtureSchema.parse({ failFirst: 1, failure: { reasonCode: 'BAD_ARTIFACTS' }, output }),
+    ]);
+
+    const first = await executor.execute(spec, { workDir: '/tmp' });
+    expect(!first.ok && first.error.reasonCode).toBe('BAD_ARTIFACTS');
+
+    const second = await executor.execute(spec, { workDir: '/tmp' });
+    expect(second.ok && second.value.diff).toBe(output.diff);
+    expect(second.ok && second.value.testPlan).toBe('Run tests');
+  });
+
+  test('a timeout fixture holds until the job timeout', async () => {
+    const executor = new MockExecutor([MockFixtureSchema.parse({ result: 'timeout', output })]);
+
+    const result = await executor.execute(spec, { workDir: '/tmp', timeoutMs: 10 });
+    expect(!result.ok && result.error.reasonCode).toBe('TIMEOUT');
+  });
+
+  test('stops when the signal aborts', async () => {
+    const executor = new MockExecutor([MockFixtureSchema.parse({ delayMs: 10_000, output })]);
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await executor.execute(spec, { workDir: '/tmp', signal: controller.signal });
+    expect(!result.ok && result.error.message).toBe('Executor canceled');
+  });
+
+  test('asks mid-run with the job env from the context', async () => {
+    let postedBody: any;
+    globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      if (url === 'http://relay.local/asks' && init?.method === 'POST') {
+        postedBody = JSON.parse(init.body as string);
+        return new Response(JSON.stringify({ askId: postedBody.ask_id }), { status: 202 });
+      }
+      if (url.includes('/answer')) {
+        return new Response(
+          JSON.stringify({ askId: postedBody.ask_id, status: 'ANSWERED', answerJson: { choice: 'b' } }),
+          { status: 200 }
+        );
+      }
+      throw new Error(`Unexpected fetch call to ${url}`);
+    }) as typeof fetch;
+
+    const executor = new MockExecutor([
+      MockFixtureSchema.parse({ ask: { type: 'CLARIFICATION', prompt: 'Which option?' }, output }),
+    ]);
+    const result = await executor.execute(spec, {
+      workDir: '/tmp',
+      env: { TASK_RELAY_JOB_ID: 'job_mock', TASK_RELAY_STEP_ID: 'mock', ASK_ANSWER_ORIGIN: 'http://relay.local' },
+    });
+
+    expect(postedBody.job_id).toBe('job_mock');
+    expect(postedBody.prompt).toBe('Which option?');
+    expect(result.ok && result.value.rawOutput).toContain('{"choice":"b"}');
+  });
+});
@@ -10,11 +10,27 @@ import {
   ArtifactMetaSchema,
   AskPayloadSchema,
   AnswerPayloadSchema,
+  DecisionCacheInvalidateRequestSchema,
 } from '../src/models/schemas.js';
 import { asJobId, asCommitHash, isJobId } from '../src/models/brands.js';
-import { canTransition, priorityToNumber } from '../src/models/states.js';
+import { canTransition, priorityToNumber, workerStatus } from '../src/models/states.js';
+import { concurrencyKeyFor } from '../src/db/jobs-repository.js';
 
 describe('Zod Schemas', () => {
+  test('concurrencyKeyFor defaults to repository and base branch', () => {
+    const spec = JobSpecSchema.parse({
+      repo: { type: 'local', path: '/work/app', baseBranch: 'main', baselineCommit: 'a'.repeat(40) },
+      task: { title: 'T', description: 'D', acceptance: [] },
+      scope: { readPaths: ['src/'] },
+      outputContract: ['DIFF', 'TEST_PLAN', 'NOTES'],
+      execution: { sandbox: 'read-only', askPolicy: 'untrusted' },
+      idempotencyKey: 'concurrency-key',
+    });
+
+    expect(concurrencyKeyFor(spec)).toBe('/work/app#main');
+    expect(concurrencyKeyFor({ ...spec, execution: { ...spec.execution, concurrencyKey: 'docs' } })).toBe('docs');
+  });
+
   test('JobSpecSchema validates valid job spec', () => {
     const validSpec = {
       repo: {
@@ -121,6 +137,15 @@ describe('Zod Schemas', () => {
     const result = AnswerPayloadSchema.safeParse(payload);
     expect(result.success).toBe(true);
   });
+
+  test('DecisionCacheInvalidateRequestSchema needs a filter and a hex key prefix', () => {
+    expect(DecisionCacheInvalidateRequestSchema.safeParse({}).success).toBe(false);
+    expect(DecisionCacheInvalidateRequestSchema.safeParse({ keyPrefix: 'ABC' }).success).toBe(false);
+    expect(DecisionCacheInvalidateRequestSchema.safeParse({ keyPrefix: 'abc' }).success).toBe(true);
+    expect(
+      DecisionCacheInvalidateRequestSchema.safeParse({ roleId: 'role.diff_planner', policyVersion: '2.0' }).success
+    ).toBe(true);
+  });
 });
 
 describe('Branded Types', () => {
@@ -155,9 +180,35 @@ describe('State Machine', () => {
     expect(canTransition('SUCCEEDED', 'RUNNING')).toBe(false); // Terminal state
   });
 
+  test('canTransition allows stale jobs to be recovered', () => {
+    expect(canTransition('RUNNING', 'STALE')).toBe(true);
+    expect(canTransition('WAITING_ON_ANSWER', 'STALE')).toBe(true);
+    expect(canTransition('STALE', 'QUEUED')).toBe(true);
+    expect(canTransition('QUEUED', 'STALE')).toBe(false);
+  });
+
+  test('canTransition lets unfinished jobs expire', () => {
+    expect(canTransition('QUEUED', 'EXPIRED')).toBe(true);
+    expect(canTransition('WAITING_ON_ANSWER', 'EXPIRED')).toBe(true);
+    expect(canTransition('STALE', 'EXPIRED')).toBe(true);
+    expect(canTransition('FAILED', 'EXPIRED')).toBe(false);
+  });
+
+  test('canTransition lets a queued job fail when a parent did not succeed', () => {
+    expect(canTransition('QUEUED', 'FAILED')).toBe(true);
+    expect(canTransition('CANCELED', 'FAILED')).toBe(false);
+  });
+
   test('priorityToNumber converts priorities', () => {
     expect(priorityToNumber('P0')).toBe(0);
     expect(priorityToNumber('P1')).toBe(1);
     expect(priorityToNumber('P2')).toBe(2);
   });
+
+  test('workerStatus flags live workers that stopped heartbeating', () => {
+    expect(workerStatus('BUSY', 1_000, 50_000, 60_000)).toBe('BUSY');
+    expect(workerStatus('BUSY', 1_000, 70_000, 60_000)).toBe('UNRESPONSIVE');
+    expect(workerStatus('IDLE', 1_000, 70_000, 60_000)).toBe('UNRESPONSIVE');
+    expect(workerStatus('STOPPED', 1_000, 70_000, 60_000)).toBe('STOPPED');
+  });
 });
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { OpenAICompatibleExecutor, chatCompletionsUrl } from '../src/executors/openai-compatible.js';
+import { JobSpecSchema } from '../src/models/schemas.js';
+
+const spec = JobSpecSchema.parse({
+  repo: { type: 'git', url: 'https://github.com/test/repo.git', baseBranch: 'main', baselineCommit: 'a'.repeat(40) },
+  task: { title: 'Add a helper', description: 'Add a helper function', acceptance: [] },
+  scope: { readPaths: ['src/'] },
+  outputContract: ['DIFF', 'TEST_PLAN', 'NOTES'],
+  execution: { preferredModel: 'qwen2.5-coder', sandbox: 'read-only', askPolicy: 'untrusted' },
+  idempotencyKey: 'openai-compatible-test',
+});
+
+function completion(content: string): Response {
+  return new Response(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * A local chat completions endpoint; each test sets `respond`
+ */
+let server: ReturnType<typeof Bun.serve>;
+let respond: (request: Request) => Response | Promise<Response>;
+let baseUrl: string;
+
+beforeEach(() => {
+  server = Bun.serve({ port: 0, fetch: (request) => respond(request) });
+  baseUrl = `http://localhost:${server.port}`;
+});
+
+afterEach(() => {
+  server.stop(true);
+});
+
+describe('OpenAICompatibleExecutor', () => {
+  test('chatCompletionsUrl accepts base URLs with or without /v1', () => {
+    expect(chatCompletionsUrl('http://localhost:8080')).toBe('http://localhost:8080/v1/chat/completions');
+    expect(chatCompletionsUrl('http://localhost:11434/v1/')).toBe('http://localhost:11434/v1/chat/completions');
+  });
+
+  test('posts the task prompt and parses the sections', async () => {
+    let request: { path: string; headers: Headers; body: any } | undefined;
+    respond = async (incoming) => {
+      request = { path: new URL(incoming.url).pathname, headers: incoming.headers, body: await incoming.json() };
+      return completion('### DIFF\n--- a/x\n+++ b/x\n### TEST_PLAN\nRun tests\n### NOTES\nNone');
+    };
+
+    const executor = new OpenAICompatibleExecutor({ baseUrl: `${baseUrl}/v1`, apiKey: 'secret', defaultModel: 'llama3' });
+    const result = await executor.execute(spec, { workDir: '/tmp', timeoutMs: 1000 });
+
+    expect(result.ok && result.value.testPlan).toBe('Run tests');
+    expect(request?.path).toBe('/v1/chat/completions');
+    expect(request?.headers.get('authorization')).toBe('Bearer secret');
+    expect(request?.body.model).toBe('qwen2.5-coder');
+    expect(request?.body.messages[0].content).toContain('Add a helper');
+  });
+
+  test('classifies HTTP errors and missing sections', async () => {
+    const executor = new OpenAICompatibleExecutor({ baseUrl, defaultModel: 'llama3' });
+
+    respond = () => new Response('overloaded', { status: 503 });
+    const httpError = await executor.execute(spec, { workDir: '/tmp' });
+    expect(!httpError.ok && httpError.error.reasonCode).toBe('EXECUTOR_ERROR');
+
+    respond = () => completion('Sorry, I cannot help.');
+    const badOutput = await executor.execute(spec, { workDir: '/tmp' });
+    expect(!badOutput.ok && badOutput.error.reasonCode).toBe('BAD_ARTIFACTS');
+  });
+
+  test('a slow endpoint times out', async () => {
+    respond = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+      return completion('### DIFF\n\n### TEST_PLAN\n\n### NOTES\n');
+    };
+    const executor = new OpenAICompatibleExecutor({ baseUrl, defaultModel: 'llama3' });
+
+    const started = Date.now();
+    const result = await executor.execute(spec, { workDir: '/tmp', timeoutMs: 100 });
+
+    expect(!result.ok && result.error).toMatchObject({ reasonCode: 'TIMEOUT', message: 'Executor timeout exceeded' });
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
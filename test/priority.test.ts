@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { agedPriority, effectivePriority } from '../src/core/priority.js';
+
+const MINUTE = 60_000;
+
+describe('agedPriority', () => {
+  test('gains one level per aging interval, up to P0', () => {
+    expect(agedPriority('P2', 9 * MINUTE, 10 * MINUTE)).toBe('P2');
+    expect(agedPriority('P2', 10 * MINUTE, 10 * MINUTE)).toBe('P1');
+    expect(agedPriority('P2', 25 * MINUTE, 10 * MINUTE)).toBe('P0');
+    expect(agedPriority('P1', 60 * MINUTE, 10 * MINUTE)).toBe('P0');
+  });
+
+  test('leaves priority unchanged when aging is disabled', () => {
+    expect(agedPriority('P2', 60 * MINUTE, 0)).toBe('P2');
+  });
+});
+
+describe('effectivePriority', () => {
+  const base = {
+    priority: 'P2' as const,
+    createdAt: 1_000_000,
+    notBefore: null,
+    startedAt: null,
+    finishedAt: null,
+  };
+
+  test('ages queued jobs up to now', () => {
+    const job = { ...base, state: 'QUEUED' as const };
+    expect(effectivePriority(job, 10 * MINUTE, base.createdAt + 10 * MINUTE)).toBe('P1');
+  });
+
+  test('counts from notBefore for delayed jobs', () => {
+    const job = { ...base, state: 'QUEUED' as const, notBefore: base.createdAt + 60 * MINUTE };
+    expect(effectivePriority(job, 10 * MINUTE, base.createdAt + 65 * MINUTE)).toBe('P2');
+  });
+
+  test('reports the priority a leased job was picked at', () => {
+    const job = { ...base, state: 'RUNNING' as const, startedAt: base.createdAt + 10 * MINUTE };
+    expect(effectivePriority(job, 10 * MINUTE, base.createdAt + 60 * MINUTE)).toBe('P1');
+  });
+});
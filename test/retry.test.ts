@@ -0,0 +1,78 @@
+/**
+ * Retry policy tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { computeBackoffMs, shouldRetry } from '../src/core/retry.js';
+import { RetryPolicySchema } from '../src/models/schemas.js';
+import { canTransition } from '../src/models/states.js';
+import { JobsRepository } from '../src/db/jobs-repository.js';
+import { asJobId, asLeaseOwner } from '../src/models/index.js';
+import { createMigratedDatabase } from './helpers/database.js';
+import { localJobSpec } from './helpers/relay.js';
+
+describe('Retry Policy', () => {
+  test('RetryPolicySchema applies defaults', () => {
+    const policy = RetryPolicySchema.parse({});
+    expect(policy.maxAttempts).toBe(3);
+    expect(policy.retryOn).toEqual(['EXECUTOR_ERROR', 'TIMEOUT', 'INTERNAL_ERROR']);
+  });
+
+  test('computeBackoffMs doubles per attempt and respects the cap', () => {
+    const policy = RetryPolicySchema.parse({ backoffBaseMs: 1000, backoffMaxMs: 5000 });
+    expect(computeBackoffMs(policy, 1)).toBe(1000);
+    expect(computeBackoffMs(policy, 2)).toBe(2000);
+    expect(computeBackoffMs(policy, 3)).toBe(4000);
+    expect(computeBackoffMs(policy, 4)).toBe(5000);
+  });
+
+  test('shouldRetry only retries listed reasons within the attempt budget', () => {
+    const policy = RetryPolicySchema.parse({ maxAttempts: 2 });
+    expect(shouldRetry(undefined, 'EXECUTOR_ERROR', 1)).toBe(false);
+    expect(shouldRetry(policy, 'EXECUTOR_ERROR', 1)).toBe(true);
+    expect(shouldRetry(policy, 'EXECUTOR_ERROR', 2)).toBe(false);
+    expect(shouldRetry(policy, 'POLICY', 1)).toBe(false);
+    expect(shouldRetry(policy, 'CONFLICT', 1)).toBe(false);
+  });
+
+  test('running jobs can return to the queue', () => {
+    expect(canTransition('RUNNING', 'QUEUED')).toBe(true);
+    expect(canTransition('FAILED', 'QUEUED')).toBe(false);
+  });
+
+  test('requeue is refused once another worker holds the lease', () => {
+    const jobs = new JobsRepository(createMigratedDatabase());
+    const jobId = asJobId('job_retry');
+    const lease = { leaseTtlMs: 30_000, concurrencyLimit: 1, priorityAgingMs: 0 };
+    jobs.create({
+      id: jobId,
+      spec: localJobSpec({ path: '/repo', commit: 'a'.repeat(40) }, 'retry'),
+      priority: 'P1',
+      ttlS: 3600,
+    });
+
+    expect(jobs.acquireLease({ ...lease, owner: asLeaseOwner('worker-a') })).toEqual({ ok: true, value: jobId });
+    // The sweeper reclaims worker-a's lease and worker-b leases the job again
+    expect(jobs.requeue({ id: jobId, notBefore: Date.now() })).toEqual({ ok: true, value: true });
+    expect(jobs.acquireLease({ ...lease, owner: asLeaseOwner('worker-b') })).toEqual({ ok: true, value: jobId });
+
+    const stale = jobs.requeue({
+      id: jobId,
+      notBefore: Date.now(),
+      reasonCode: 'EXECUTOR_ERROR',
+      leaseOwner: asLeaseOwner('worker-a'),
+    });
+    expect(stale).toEqual({ ok: true, value: false });
+
+    const job = jobs.getById(jobId);
+    expect(job.ok && [job.value.state, job.value.leaseOwner]).toEqual(['RUNNING', 'worker-b']);
+    expect(jobs.requeue({ id: jobId, notBefore: Date.now(), leaseOwner: asLeaseOwner('worker-b') })).toEqual({
+      ok: true,
+      value: true,
+    });
+  });
+
+  test('retryOn rejects reasons an attempt cannot produce', () => {
+    expect(RetryPolicySchema.safeParse({ retryOn: ['DEPENDENCY_FAILED'] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Schedule materialization tests
+ */
+
+import { beforeEach, describe, test, expect } from 'bun:test';
+import { JobManager } from '../src/core/job-manager.js';
+import { JobsRepository } from '../src/db/index.js';
+import { ArtifactsService } from '../src/services/artifacts.js';
+import { createMigratedDatabase } from './helpers/database.js';
+import { localJobSpec, silentLogger } from './helpers/relay.js';
+
+const repo = { path: '/repo', commit: 'a'.repeat(40) };
+const FIVE_MINUTES_MS = 5 * 60_000;
+
+let jobs: JobManager;
+let jobsRepo: JobsRepository;
+
+beforeEach(() => {
+  const db = createMigratedDatabase();
+  jobs = new JobManager(db, new ArtifactsService('/tmp/unused-artifacts'), silentLogger);
+  jobsRepo = new JobsRepository(db);
+});
+
+function createSchedule(name: string): { scheduleId: string; nextRunAt: number } {
+  const result = jobs.createSchedule(localJobSpec(repo, name, { execution: { cron: '*/5 * * * *' } }));
+  if (!result.ok || result.value.nextRunAt === null) {
+    throw new Error(result.ok ? 'Schedule has no next run' : result.error);
+  }
+  return { scheduleId: result.value.scheduleId, nextRunAt: result.value.nextRunAt };
+}
+
+function schedule(name: string) {
+  const result = jobs.listSchedules();
+  const found = result.ok ? result.value.items.find((item) => item.name === name) : undefined;
+  if (!found) {
+    throw new Error(`No schedule ${name}`);
+  }
+  return found;
+}
+
+describe('materializeDueSchedules', () => {
+  test('a due schedule creates exactly one job and advances next_run_at', () => {
+    const { nextRunAt: tick } = createSchedule('nightly');
+
+    expect(jobs.materializeDueSchedules(tick - 1)).toEqual({ ok: true, value: 0 });
+    expect(jobs.materializeDueSchedules(tick)).toEqual({ ok: true, value: 1 });
+    expect(jobs.materializeDueSchedules(tick)).toEqual({ ok: true, value: 0 });
+
+    const advanced = schedule('nightly');
+    expect(advanced.nextRunAt).toBe(tick + FIVE_MINUTES_MS);
+    expect(jobsRepo.count()).toBe(1);
+
+    const job = jobsRepo.getByIdempotencyKey(`nightly@${new Date(tick).toISOString()}`);
+    expect(job.ok && job.value?.id).toBe(advanced.lastJobId ?? '');
+    expect(job.ok && job.value?.spec.execution.cron).toBeUndefined();
+
+    expect(jobs.materializeDueSchedules(tick + FIVE_MINUTES_MS)).toEqual({ ok: true, value: 1 });
+    expect(jobsRepo.count()).toBe(2);
+  });
+
+  test('ticks missed while the scheduler was down run once', () => {
+    const { nextRunAt: tick } = createSchedule('missed');
+    const now = tick + 12 * FIVE_MINUTES_MS + 1;
+
+    expect(jobs.materializeDueSchedules(now)).toEqual({ ok: true, value: 1 });
+    expect(jobs.materializeDueSchedules(now)).toEqual({ ok: true, value: 0 });
+
+    expect(jobsRepo.count()).toBe(1);
+    expect(schedule('missed').nextRunAt).toBe(tick + 13 * FIVE_MINUTES_MS);
+  });
+
+  test('a paused schedule creates no jobs', () => {
+    const { scheduleId, nextRunAt: tick } = createSchedule('paused');
+    expect(jobs.pauseSchedule(scheduleId, true).ok).toBe(true);
+
+    expect(jobs.materializeDueSchedules(tick)).toEqual({ ok: true, value: 0 });
+    expect(jobsRepo.count()).toBe(0);
+  });
+});
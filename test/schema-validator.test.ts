@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'fs';
+import pino from 'pino';
+import * as yaml from 'yaml';
+import { SchemaValidator, formatViolations } from '../src/answer-runner/schema-validator.js';
+import { PromptBuilder } from '../src/answer-runner/prompt-builder.js';
+import type { RoleDefinition } from '../src/answer-runner/role-catalog.js';
+
+const logger = pino({ level: 'silent' });
+const diffPlanner = yaml.parse(readFileSync('prompts/role.diff_planner@v1.yaml', 'utf-8')) as RoleDefinition;
+
+describe('SchemaValidator', () => {
+  test('accepts answers that match a role output schema', () => {
+    const validator = new SchemaValidator(undefined, logger);
+    const answer = {
+      steps: [{ path: 'src/export/orders.ts', action: 'modify', why: 'Add VAT column' }],
+      risks: [],
+      rollback: ['git revert'],
+      checks: ['bun test'],
+    };
+
+    expect(validator.validate(answer, diffPlanner.output_schema)).toEqual({ valid: true });
+  });
+
+  test('reports JSON Pointer paths for missing fields, bad enums and wrong types', () => {
+    const validator = new SchemaValidator(undefined, logger);
+    const answer = {
+      steps: [{ path: 'a.ts', action: 'modify', why: 'x' }, { path: 'b.ts', action: 'rewrite' }],
+      risks: 'none',
+      rollback: [],
+    };
+
+    const result = validator.validate(answer, diffPlanner.output_schema);
+    expect(result.valid).toBe(false);
+    const violations = result.valid === false ? result.violations : [];
+    expect(violations).toContainEqual({ path: '/checks', message: 'is required' });
+    expect(violations).toContainEqual({ path: '/steps/1/why', message: 'is required' });
+    expect(violations).toContainEqual({
+      path: '/steps/1/action',
+      message: 'must be one of "create", "modify", "delete", "rename"',
+    });
+    expect(violations).toContainEqual({ path: '/risks', message: 'must be array' });
+    expect(formatViolations(violations)).toContain('/steps/1/why is required');
+  });
+
+  test('resolves $ref to schemata by $id and checks formats', () => {
+    const validator = new SchemaValidator('schemata', logger);
+    const schema = {
+      type: 'object',
+      required: ['plan', 'dueAt'],
+      properties: {
+        plan: { $ref: 'https://mcp-task-relay.dev/schemata/artifacts/diff_plan.schema.json' },
+        dueAt: { type: 'string', format: 'date-time' },
+      },
+    };
+
+    const answer = { plan: { steps: [], risks: [], rollback: [], checks: [], extra: 1 }, dueAt: 'soon' };
+
+    const result = validator.validate(answer, schema);
+    const violations = result.valid === false ? result.violations : [];
+    expect(violations).toContainEqual({ path: '/plan/extra', message: 'is not allowed' });
+    expect(violations.map((v) => v.path)).toContain('/dueAt');
+  });
+
+  test('reports an unusable schema instead of failing the answer', () => {
+    const validator = new SchemaValidator(undefined, logger);
+    expect(validator.validate({}, '{not json').valid).toBeNull();
+    expect(validator.validate({}, { type: 'no-such-type' }).valid).toBeNull();
+  });
+});
+
+describe('PromptBuilder feedback layer', () => {
+  test('appends schema violations after the task on retries', () => {
+    const builder = new PromptBuilder();
+    const feedback = builder.buildFeedbackLayer([{ path: '/steps/0/why', message: 'is required' }]);
+    const prompt = builder.build({ base: 'BASE', task: 'TASK', feedback });
+
+    expect(prompt.indexOf('TASK')).toBeLessThan(prompt.indexOf('PREVIOUS ATTEMPT REJECTED'));
+    expect(prompt).toContain('  - /steps/0/why: is required');
+    expect(builder.build({ base: 'BASE', task: 'TASK' })).not.toContain('PREVIOUS ATTEMPT');
+  });
+});
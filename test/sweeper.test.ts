@@ -0,0 +1,181 @@
+/**
+ * Job sweeper tests: stale leases, TTL expiry and failed dependencies
+ */
+
+import { beforeEach, describe, test, expect } from 'bun:test';
+import type { Database } from 'better-sqlite3';
+import { JobManager } from '../src/core/job-manager.js';
+import { AttemptsRepository, EventsRepository, JobsRepository } from '../src/db/index.js';
+import { ArtifactsService } from '../src/services/artifacts.js';
+import { asJobId, asLeaseOwner, type JobId } from '../src/models/index.js';
+import { createMigratedDatabase } from './helpers/database.js';
+import { localJobSpec, silentLogger } from './helpers/relay.js';
+
+const repo = { path: '/repo', commit: 'a'.repeat(40) };
+const LEASE_TTL_MS = 30_000;
+
+let db: Database;
+let jobs: JobManager;
+let jobsRepo: JobsRepository;
+let attemptsRepo: AttemptsRepository;
+let eventsRepo: EventsRepository;
+
+beforeEach(() => {
+  db = createMigratedDatabase();
+  jobs = new JobManager(db, new ArtifactsService('/tmp/unused-artifacts'), silentLogger);
+  jobsRepo = new JobsRepository(db);
+  attemptsRepo = new AttemptsRepository(db);
+  eventsRepo = new EventsRepository(db);
+});
+
+async function submit(key: string, execution: Record<string, unknown> = {}, dependsOn?: string[]): Promise<JobId> {
+  const result = await jobs.submit(localJobSpec(repo, key, { execution, ...(dependsOn ? { dependsOn } : {}) }));
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return asJobId(result.value.jobId);
+}
+
+/**
+ * Lease the next job as `owner` and open its attempt, as a worker does
+ */
+function lease(owner: string): JobId {
+  const leased = jobsRepo.acquireLease({
+    owner: asLeaseOwner(owner),
+    leaseTtlMs: LEASE_TTL_MS,
+    concurrencyLimit: 10,
+    priorityAgingMs: 0,
+  });
+  if (!leased.ok || !leased.value) {
+    throw new Error('Nothing leased');
+  }
+  attemptsRepo.start({ jobId: leased.value, leaseOwner: asLeaseOwner(owner) });
+  return leased.value;
+}
+
+function job(jobId: JobId) {
+  const result = jobsRepo.getById(jobId);
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.value;
+}
+
+function eventTypes(jobId: JobId): string[] {
+  const result = eventsRepo.listByJob(jobId);
+  return result.ok ? result.value.map((event) => event.type) : [];
+}
+
+describe('reapStaleLeases', () => {
+  test('an expired lease goes STALE, then back to QUEUED with the attempt counted', async () => {
+    const jobId = await submit('stale-requeue');
+    lease('worker-dead');
+
+    expect(jobs.reapStaleLeases({ maxAttempts: 3, now: Date.now() - 1 })).toEqual({ ok: true, value: 0 });
+    expect(jobs.reapStaleLeases({ maxAttempts: 3, now: Date.now() + LEASE_TTL_MS + 1 })).toEqual({
+      ok: true,
+      value: 1,
+    });
+
+    const requeued = job(jobId);
+    expect(requeued.state).toBe('QUEUED');
+    expect(requeued.leaseOwner).toBeNull();
+    expect(eventTypes(jobId)).toEqual(expect.arrayContaining(['job.state.stale', 'job.state.queued']));
+
+    const attempts = attemptsRepo.listByJob(jobId);
+    expect(attempts.ok && attempts.value.map((attempt) => [attempt.resultCode, attempt.reason])).toEqual([
+      ['STALE', 'Lease held by worker-dead expired'],
+    ]);
+    expect(requeued.summary).toBe('Lease expired on attempt 1/3, requeued');
+  });
+
+  test('a stale job with no attempts left fails', async () => {
+    const jobId = await submit('stale-fail', { retry: { maxAttempts: 1 } });
+    lease('worker-dead');
+
+    expect(jobs.reapStaleLeases({ maxAttempts: 3, now: Date.now() + LEASE_TTL_MS + 1 })).toEqual({
+      ok: true,
+      value: 1,
+    });
+
+    const failed = job(jobId);
+    expect(failed.state).toBe('FAILED');
+    expect(failed.reasonCode).toBe('INTERNAL_ERROR');
+    expect(failed.summary).toBe('Lease expired on attempt 1/1, no attempts left');
+    expect(eventTypes(jobId)).toEqual(expect.arrayContaining(['job.state.stale', 'job.state.failed']));
+  });
+});
+
+describe('expireOverdueJobs', () => {
+  test('expires queued and running jobs past their TTL and leaves finished jobs alone', async () => {
+    const running = await submit('ttl-running', { ttlS: 60 });
+    lease('worker-a');
+    const queued = await submit('ttl-queued', { ttlS: 60 });
+    const finished = await submit('ttl-finished', { ttlS: 60 });
+    expect(jobs.updateState(finished, 'CANCELED')).toEqual({ ok: true, value: true });
+    const fresh = await submit('ttl-fresh', { ttlS: 3600 });
+
+    const published: string[] = [];
+    jobs.on('job.state', ({ jobId, state }) => published.push(`${jobId}:${state}`));
+
+    expect(jobs.expireOverdueJobs(Date.now() + 60_001)).toEqual({ ok: true, value: 2 });
+
+    expect([running, queued, finished, fresh].map((jobId) => job(jobId).state)).toEqual([
+      'EXPIRED',
+      'EXPIRED',
+      'CANCELED',
+      'QUEUED',
+    ]);
+    expect(job(running).summary).toBe('Expired in RUNNING after ttl of 60s');
+    expect(eventTypes(queued)).toContain('job.state.expired');
+    expect(published.sort()).toEqual([`${queued}:EXPIRED`, `${running}:EXPIRED`].sort());
+
+    // A worker still running the expired job can no longer record a result
+    expect(
+      jobsRepo.updateState({
+        id: running,
+        state: 'SUCCEEDED',
+        expectedState: 'RUNNING',
+        leaseOwner: asLeaseOwner('worker-a'),
+      })
+    ).toEqual({ ok: true, value: false });
+  });
+});
+
+describe('failBlockedJobs', () => {
+  test('canceling a parent fails its queued dependents at once, down the chain', async () => {
+    const parent = await submit('parent');
+    const child = await submit('child', {}, [parent]);
+    const grandchild = await submit('grandchild', {}, [child]);
+
+    expect(jobs.cancel(parent)).toEqual({ ok: true, value: { ok: true, state: 'CANCELED' } });
+
+    expect([child, grandchild].map((jobId) => [job(jobId).state, job(jobId).reasonCode])).toEqual([
+      ['FAILED', 'DEPENDENCY_FAILED'],
+      ['FAILED', 'DEPENDENCY_FAILED'],
+    ]);
+    expect(job(child).summary).toBe(`Parent job ${parent} ended CANCELED`);
+    expect(job(grandchild).summary).toBe(`Parent job ${child} ended FAILED`);
+    expect(eventTypes(child)).toEqual(expect.arrayContaining(['job.state.failed', 'job.dependency_failed']));
+    expect(jobs.failBlockedJobs()).toEqual({ ok: true, value: 0 });
+  });
+
+  test('the sweep fails dependents of a parent failed by another process', async () => {
+    const parent = await submit('parent');
+    const child = await submit('child', {}, [parent]);
+    const grandchild = await submit('grandchild', {}, [child]);
+    lease('worker-elsewhere');
+    expect(
+      jobsRepo.updateState({
+        id: parent,
+        state: 'FAILED',
+        expectedState: 'RUNNING',
+        leaseOwner: asLeaseOwner('worker-elsewhere'),
+      })
+    ).toEqual({ ok: true, value: true });
+    expect(job(child).state).toBe('QUEUED');
+
+    expect(jobs.failBlockedJobs()).toEqual({ ok: true, value: 2 });
+    expect([child, grandchild].map((jobId) => job(jobId).state)).toEqual(['FAILED', 'FAILED']);
+  });
+});
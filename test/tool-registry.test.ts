@@ -0,0 +1,180 @@
+import { describe, expect, test } from 'bun:test';
+import pino from 'pino';
+import { Ok } from '../src/models/index.js';
+import type { AskRecord } from '../src/models/index.js';
+import type { RoleDefinition } from '../src/answer-runner/role-catalog.js';
+import {
+  ToolRegistry,
+  ToolSession,
+  capsForTool,
+  requestsToolPrefix,
+  toApiToolName,
+  type ToolDefinition,
+} from '../src/answer-runner/tool-registry.js';
+import { findTestFiles, normalizeRepoPath } from '../src/answer-runner/repo-tools.js';
+import { mcpResultText } from '../src/answer-runner/mcp-client-pool.js';
+
+const logger = pino({ level: 'silent' });
+const snapshot = { gitArgs: ['-C', '/repo'], commit: 'a'.repeat(40) };
+
+function tool(name: string, overrides: Partial<ToolDefinition> = {}): ToolDefinition {
+  return {
+    name,
+    description: name,
+    inputSchema: { type: 'object' },
+    readOnly: true,
+    requiresSnapshot: true,
+    execute: async () => Ok(`${name} ok`),
+    ...overrides,
+  };
+}
+
+function registry(...tools: ToolDefinition[]): ToolRegistry {
+  const result = new ToolRegistry();
+  for (const definition of tools) {
+    result.register(definition);
+  }
+  return result;
+}
+
+function ask(overrides: Partial<AskRecord> = {}): AskRecord {
+  return {
+    contextEnvelope: { job_snapshot: {}, role: 'role.diff_planner' },
+    ...overrides,
+  } as AskRecord;
+}
+
+const role = {
+  id: 'role.diff_planner',
+  version: 1,
+  purpose: 'plan',
+  system: 'plan',
+  tool_whitelist: ['repo.search', 'repo.read', 'db.write'],
+  limits: { max_tool_calls: 5 },
+} as RoleDefinition;
+
+describe('ToolRegistry.resolvePolicy', () => {
+  test('offers the role whitelist narrowed by allowed_tools and read_only caps', () => {
+    const tools = registry(tool('repo.search'), tool('repo.read'), tool('db.write', { readOnly: false }));
+
+    const policy = tools.resolvePolicy(
+      ask({
+        constraints: { allowed_tools: ['repo.read', 'db.write'], max_tool_calls: 3 },
+        contextEnvelope: { job_snapshot: {}, role: 'r', tool_caps: { 'db.write': { read_only: true } } },
+      }),
+      role,
+      snapshot
+    );
+
+    expect(policy.tools.map((definition) => definition.name)).toEqual(['repo.read']);
+    expect(policy.maxCalls).toBe(3);
+  });
+
+  test('matches <prefix>.* patterns and falls back to prefix caps for extra tools', () => {
+    const tools = registry(tool('repo.read'));
+    const mcpTools = [
+      tool('db.query', { requiresSnapshot: false }),
+      tool('db.insert', { requiresSnapshot: false, readOnly: false }),
+    ];
+    const dbRole = { ...role, tool_whitelist: ['repo.read', 'db.*'] };
+    const dbAsk = ask({
+      constraints: { allowed_tools: ['db.*'] },
+      contextEnvelope: { job_snapshot: {}, role: 'r', tool_caps: { db: { read_only: true, timeout_ms: 500 } } },
+    });
+
+    const policy = tools.resolvePolicy(dbAsk, dbRole, null, mcpTools);
+    expect(policy.tools.map((definition) => definition.name)).toEqual(['db.query']);
+    expect(capsForTool(policy.caps, 'db.query')?.timeout_ms).toBe(500);
+
+    expect(requestsToolPrefix(dbAsk, dbRole, 'db')).toBe(true);
+    expect(requestsToolPrefix(ask({ constraints: { allowed_tools: ['repo.read'] } }), dbRole, 'db')).toBe(false);
+    expect(requestsToolPrefix(dbAsk, { ...role, tool_whitelist: ['repo.read'] }, 'db')).toBe(false);
+  });
+
+  test('offers nothing without a whitelist, and no repository tools without a snapshot', () => {
+    const tools = registry(tool('repo.search'), tool('repo.read'));
+
+    expect(tools.resolvePolicy(ask(), null, snapshot).tools).toEqual([]);
+    expect(tools.resolvePolicy(ask(), role, null).tools).toEqual([]);
+    expect(tools.resolvePolicy(ask({ constraints: { max_tool_calls: 0 } }), role, snapshot).tools).toEqual([]);
+  });
+});
+
+describe('ToolSession', () => {
+  test('maps names for the API and records the tools actually used', async () => {
+    const tools = registry(tool('repo.search'), tool('repo.read'));
+    const session = new ToolSession(tools.resolvePolicy(ask(), role, snapshot), snapshot, logger);
+    const signal = new AbortController().signal;
+
+    expect(session.apiTools().map((definition) => definition.name)).toEqual(['repo_search', 'repo_read']);
+    expect(await session.call('repo_read', {}, signal)).toEqual(Ok({ content: 'repo.read ok', isError: false }));
+    await session.call('repo_read', {}, signal);
+    expect(session.toolsUsed).toEqual(['repo.read']);
+  });
+
+  test('reports tool failures to the model but caps breaches as violations', async () => {
+    const tools = registry(
+      tool('repo.search', { execute: async () => ({ ok: false, error: 'bad pattern' }) }),
+      tool('repo.read', { execute: () => new Promise((resolve) => setTimeout(() => resolve(Ok('late')), 200)) })
+    );
+    const session = new ToolSession(
+      tools.resolvePolicy(
+        ask({
+          constraints: { max_tool_calls: 2 },
+          contextEnvelope: { job_snapshot: {}, role: 'r', tool_caps: { 'repo.read': { timeout_ms: 20 } } },
+        }),
+        role,
+        snapshot
+      ),
+      snapshot,
+      logger
+    );
+    const signal = new AbortController().signal;
+
+    expect(await session.call('db_write', {}, signal)).toEqual({ ok: false, error: 'Tool db_write is not allowed for this Ask' });
+    expect(await session.call('repo_search', {}, signal)).toEqual(Ok({ content: 'bad pattern', isError: true }));
+
+    const slow = await session.call('repo_read', {}, signal);
+    expect(slow.ok ? null : slow.error).toBe('Tool repo.read exceeded its 20ms timeout');
+
+    const over = await session.call('repo_search', {}, signal);
+    expect(over.ok ? null : over.error).toContain('Tool call limit of 2 exceeded');
+    expect(session.toolsUsed).toEqual(['repo.search', 'repo.read']);
+  });
+
+  test('toApiToolName replaces characters the API rejects', () => {
+    expect(toApiToolName('tests.lookup')).toBe('tests_lookup');
+  });
+});
+
+describe('repository tools', () => {
+  test('normalizeRepoPath keeps paths inside the repository', () => {
+    expect(normalizeRepoPath('./src//utils/')).toEqual(Ok('src/utils'));
+    expect(normalizeRepoPath('.')).toEqual(Ok(''));
+    expect(normalizeRepoPath('src/../../etc/passwd').ok).toBe(false);
+    expect(normalizeRepoPath('/etc/passwd').ok).toBe(false);
+    expect(normalizeRepoPath(':(top)secret').ok).toBe(false);
+  });
+
+  test('findTestFiles matches test files by source stem and query', () => {
+    const files = ['src/utils/hash.ts', 'test/hash.test.ts', 'test/cron.test.ts', 'pkg/hash_test.go', 'docs/hash.md'];
+
+    expect(findTestFiles(files, { path: 'src/utils/hash.ts' })).toEqual(['test/hash.test.ts', 'pkg/hash_test.go']);
+    expect(findTestFiles(files, { query: 'CRON' })).toEqual(['test/cron.test.ts']);
+    expect(findTestFiles(files, {})).toHaveLength(3);
+  });
+});
+
+describe('mcpResultText', () => {
+  test('joins text content and summarizes the rest', () => {
+    expect(
+      mcpResultText({
+        content: [
+          { type: 'text', text: '2 rows' },
+          { type: 'image', data: '...', mimeType: 'image/png' },
+        ],
+      })
+    ).toBe('2 rows\n[image content omitted]');
+    expect(mcpResultText({ content: [], structuredContent: { rows: 2 } })).toBe('{"rows":2}');
+  });
+});
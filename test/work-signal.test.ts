@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkSignal } from '../src/core/work-signal.js';
+
+describe('WorkSignal', () => {
+  test('notify wakes every waiter', async () => {
+    const signal = new WorkSignal();
+    const waits = [signal.wait(10_000), signal.wait(10_000)];
+
+    signal.notify();
+
+    expect(await Promise.all(waits)).toEqual([true, true]);
+  });
+
+  test('wait times out without a notify', async () => {
+    const signal = new WorkSignal();
+    expect(await signal.wait(5)).toBe(false);
+  });
+
+  test('a notify only wakes workers already waiting', async () => {
+    const signal = new WorkSignal();
+    signal.notify();
+    expect(await signal.wait(5)).toBe(false);
+  });
+
+  test('stopJob reaches the attempts watching that job until they unregister', () => {
+    const signal = new WorkSignal();
+    const stopped: string[] = [];
+    const unwatch = signal.watchJob('job_a', (reason) => stopped.push(`a: ${reason}`));
+    signal.watchJob('job_b', (reason) => stopped.push(`b: ${reason}`));
+
+    signal.stopJob('job_a', 'Job is CANCELED');
+    unwatch();
+    signal.stopJob('job_a', 'Job is EXPIRED');
+
+    expect(stopped).toEqual(['a: Job is CANCELED']);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Worker tests against a local repository and scripted executors
+ */
+
+import { afterEach, describe, test, expect } from 'bun:test';
+import { readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { JobsRepository } from '../src/db/jobs-repository.js';
+import { MockExecutor } from '../src/executors/mock.js';
+import { executorError, type Executor } from '../src/executors/base.js';
+import { MockFixtureSchema } from '../src/config/schema.js';
+import { Ok, Err, asJobId, type JobState } from '../src/models/index.js';
+import {
+  createGitRepo,
+  createTestRelay,
+  greetingDiff,
+  localJobSpec,
+  runUntilSettled,
+  type TestRelay,
+} from './helpers/relay.js';
+
+let relay: TestRelay | null = null;
+const repoPaths: string[] = [];
+
+afterEach(async () => {
+  relay?.worker.stop();
+  await relay?.cleanup();
+  relay = null;
+  for (const path of repoPaths.splice(0)) {
+    await rm(path, { recursive: true, force: true });
+  }
+});
+
+async function gitRepo(files: Record<string, string> = { 'hello.txt': 'hello\n' }) {
+  const repo = await createGitRepo(files);
+  repoPaths.push(repo.path);
+  return repo;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('Worker cancellation', () => {
+  test('cancel stops the running executor without waiting for a heartbeat', async () => {
+    const repo = await gitRepo();
+    const fixture = MockFixtureSchema.parse({ delayMs: 30_000, output: { diff: greetingDiff('hi') } });
+    relay = await createTestRelay([{ executor: new MockExecutor([fixture]), modelPatterns: ['mock-*'] }], {
+      heartbeatIntervalMs: 60_000,
+    });
+    const { jobs, worker } = relay;
+
+    const submitted = await jobs.submit(localJobSpec(repo, 'cancel-running'));
+    if (!submitted.ok) throw new Error(submitted.error);
+    const jobId = asJobId(submitted.value.jobId);
+    const state = (): JobState | null => {
+      const result = jobs.get(jobId);
+      return result.ok ? result.value.state : null;
+    };
+    const published: JobState[] = [];
+    jobs.on('job.state', (event) => published.push(event.state));
+
+    const running = worker.start();
+    await waitFor(() => state() === 'RUNNING');
+
+    const startedAt = Date.now();
+    expect(jobs.cancel(jobId)).toEqual({ ok: true, value: { ok: true, state: 'CANCELED' } });
+    await waitFor(() => {
+      const result = jobs.get(jobId);
+      return result.ok && result.value.attempts[0]?.finishedAt !== null;
+    });
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+
+    worker.stop();
+    await running;
+
+    const job = jobs.get(jobId);
+    expect(job.ok && job.value.state).toBe('CANCELED');
+    expect(job.ok && job.value.attempts.map((attempt) => attempt.resultCode)).toEqual(['CANCELED']);
+    expect(published).toContain('CANCELED');
+  });
+});
+
+describe('Worker executor fallback', () => {
+  test('each hop runs with a model it serves, or its default model', async () => {
+    const repo = await gitRepo();
+    const models: Array<[string, string]> = [];
+    const recording = (name: string, succeed: boolean): Executor => ({
+      name,
+      execute: async (spec) => {
+        models.push([name, spec.execution.preferredModel]);
+        return succeed
+          ? Ok({ diff: greetingDiff('hi'), testPlan: 'Run tests', notes: '', rawOutput: name })
+          : Err(executorError('EXECUTOR_ERROR', `${name} exited with code 1`));
+      },
+    });
+    relay = await createTestRelay(
+      [
+        { executor: recording('codex-cli', false), modelPatterns: ['gpt-*', 'o3*'] },
+        { executor: recording('claude-code', true), modelPatterns: ['claude-*'] },
+      ],
+      { executorFallback: ['claude-code'] }
+    );
+
+    const submitted = await relay.jobs.submit(localJobSpec(repo, 'fallback-model', { execution: { preferredModel: 'o3' } }));
+    if (!submitted.ok) throw new Error(submitted.error);
+
+    expect(await runUntilSettled(relay, [submitted.value.jobId])).toEqual(['SUCCEEDED']);
+    expect(models).toEqual([
+      ['codex-cli', 'o3'],
+      ['claude-code', ''],
+    ]);
+  });
+});
+
+describe('Worker repository preparation', () => {
+  /**
+   * Replies to each job (by idempotency key) with a diff, recording hello.txt as the executor saw it
+   */
+  function greetingExecutor(diffs: Record<string, string>, seen: Record<string, string>): Executor {
+    return {
+      name: 'mock',
+      execute: async (spec, context) => {
+        seen[spec.idempotencyKey] = await readFile(join(context.workDir, 'hello.txt'), 'utf-8');
+        return Ok({ diff: diffs[spec.idempotencyKey] ?? '', testPlan: 'Run tests', notes: '', rawOutput: '' });
+      },
+    };
+  }
+
+  test('a local job runs on a clone at the baseline, on top of its parent patch', async () => {
+    const repo = await gitRepo();
+    const seen: Record<string, string> = {};
+    const diffs = { parent: greetingDiff('hi'), child: greetingDiff('hey', 'hi') };
+    relay = await createTestRelay([{ executor: greetingExecutor(diffs, seen), modelPatterns: ['mock-*'] }]);
+
+    const parent = await relay.jobs.submit(localJobSpec(repo, 'parent'));
+    if (!parent.ok) throw new Error(parent.error);
+    const child = await relay.jobs.submit(
+      localJobSpec(repo, 'child', { execution: { applyParentPatches: true }, dependsOn: [parent.value.jobId] })
+    );
+    if (!child.ok) throw new Error(child.error);
+
+    expect(await runUntilSettled(relay, [parent.value.jobId, child.value.jobId])).toEqual(['SUCCEEDED', 'SUCCEEDED']);
+    expect(seen).toEqual({ parent: 'hello\n', child: 'hi\n' });
+    // The source checkout is only read from
+    expect(await readFile(join(repo.path, 'hello.txt'), 'utf-8')).toBe('hello\n');
+  });
+
+  test('a parent patch that conflicts with an earlier parent fails the child with CONFLICT', async () => {
+    const repo = await gitRepo();
+    const seen: Record<string, string> = {};
+    const diffs = { first: greetingDiff('hi'), second: greetingDiff('hey') };
+    relay = await createTestRelay([{ executor: greetingExecutor(diffs, seen), modelPatterns: ['mock-*'] }]);
+
+    const first = await relay.jobs.submit(localJobSpec(repo, 'first'));
+    const second = await relay.jobs.submit(localJobSpec(repo, 'second'));
+    if (!first.ok || !second.ok) throw new Error('Parent submission failed');
+    const child = await relay.jobs.submit(
+      localJobSpec(repo, 'child', {
+        execution: { applyParentPatches: true },
+        dependsOn: [first.value.jobId, second.value.jobId],
+      })
+    );
+    if (!child.ok) throw new Error(child.error);
+
+    expect(await runUntilSettled(relay, [first.value.jobId, second.value.jobId, child.value.jobId])).toEqual([
+      'SUCCEEDED',
+      'SUCCEEDED',
+      'FAILED',
+    ]);
+    expect(seen).not.toHaveProperty('child');
+
+    const failed = new JobsRepository(relay.db).getById(asJobId(child.value.jobId));
+    expect(failed.ok && failed.value.reasonCode).toBe('CONFLICT');
+    expect(failed.ok && failed.value.summary).toContain(`Patch of parent job ${second.value.jobId} does not apply`);
+  });
+
+  test('a baseline commit missing from the local repository fails with CONFLICT', async () => {
+    const repo = await gitRepo();
+    relay = await createTestRelay([{ executor: greetingExecutor({}, {}), modelPatterns: ['mock-*'] }]);
+
+    const submitted = await relay.jobs.submit(localJobSpec({ path: repo.path, commit: 'f'.repeat(40) }, 'missing-baseline'));
+    if (!submitted.ok) throw new Error(submitted.error);
+
+    expect(await runUntilSettled(relay, [submitted.value.jobId])).toEqual(['FAILED']);
+    const failed = new JobsRepository(relay.db).getById(asJobId(submitted.value.jobId));
+    expect(failed.ok && failed.value.reasonCode).toBe('CONFLICT');
+    expect(failed.ok && failed.value.summary).toContain(`Baseline commit ${'f'.repeat(40)} not found`);
+  });
+});
+
+describe('Worker dependencies', () => {
+  test('a parent failing in the worker fails its dependents without waiting for a sweep', async () => {
+    const repo = await gitRepo();
+    const fixture = MockFixtureSchema.parse({ idempotencyKey: 'parent', result: 'failure' });
+    relay = await createTestRelay([{ executor: new MockExecutor([fixture]), modelPatterns: ['mock-*'] }]);
+
+    const parent = await relay.jobs.submit(localJobSpec(repo, 'parent'));
+    if (!parent.ok) throw new Error(parent.error);
+    const child = await relay.jobs.submit(localJobSpec(repo, 'child', { dependsOn: [parent.value.jobId] }));
+    if (!child.ok) throw new Error(child.error);
+
+    expect(await runUntilSettled(relay, [parent.value.jobId, child.value.jobId])).toEqual(['FAILED', 'FAILED']);
+    const failed = new JobsRepository(relay.db).getById(asJobId(child.value.jobId));
+    expect(failed.ok && failed.value.reasonCode).toBe('DEPENDENCY_FAILED');
+  });
+});
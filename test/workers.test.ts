@@ -0,0 +1,141 @@
+/**
+ * Worker registry tests: registration, attempt bookkeeping and heartbeat status
+ */
+
+import { afterEach, describe, test, expect } from 'bun:test';
+import { rm } from 'fs/promises';
+import { JobManager } from '../src/core/job-manager.js';
+import { WorkersRepository } from '../src/db/index.js';
+import { MockExecutor } from '../src/executors/mock.js';
+import { MockFixtureSchema } from '../src/config/schema.js';
+import { ArtifactsService } from '../src/services/artifacts.js';
+import { createMigratedDatabase } from './helpers/database.js';
+import {
+  createGitRepo,
+  createTestRelay,
+  greetingDiff,
+  localJobSpec,
+  runUntilSettled,
+  silentLogger,
+  type TestRelay,
+} from './helpers/relay.js';
+
+const WORKER_STALE_MS = 60_000;
+
+function createRegistry() {
+  const db = createMigratedDatabase();
+  const jobs = new JobManager(db, new ArtifactsService('/tmp/unused-artifacts'), silentLogger, {
+    priorityAgingMs: 0,
+    workerStaleMs: WORKER_STALE_MS,
+    decisionCacheMaxEntries: 0,
+  });
+  const workers = new WorkersRepository(db);
+  const ageHeartbeat = (id: string, ageMs: number): void => {
+    db.prepare('UPDATE workers SET heartbeat_at = ? WHERE id = ?').run(Date.now() - ageMs, id);
+  };
+  const status = (id: string, includeStopped = false) => {
+    const result = jobs.listWorkers(includeStopped);
+    return result.ok ? result.value.items.find((worker) => worker.id === id)?.status : undefined;
+  };
+  return { jobs, workers, ageHeartbeat, status };
+}
+
+describe('WorkersRepository', () => {
+  test('tracks a worker from registration through attempts to stop', () => {
+    const { workers, status } = createRegistry();
+    expect(workers.register({ id: 'worker-a', host: 'box', pid: 42, executors: ['mock'] })).toEqual({
+      ok: true,
+      value: undefined,
+    });
+    expect(status('worker-a')).toBe('IDLE');
+
+    workers.startAttempt('worker-a', 'job_1');
+    expect(workers.getById('worker-a')).toMatchObject({
+      ok: true,
+      value: { state: 'BUSY', currentJobId: 'job_1', attemptsStarted: 1, executors: ['mock'] },
+    });
+
+    workers.finishAttempt('worker-a', false);
+    expect(workers.getById('worker-a')).toMatchObject({
+      ok: true,
+      value: { state: 'IDLE', currentJobId: null, attemptsSucceeded: 0, attemptsFailed: 1 },
+    });
+
+    // A draining worker stays DRAINING while it finishes its last attempt
+    workers.setState('worker-a', 'DRAINING');
+    workers.startAttempt('worker-a', 'job_2');
+    workers.finishAttempt('worker-a', true);
+    expect(status('worker-a')).toBe('DRAINING');
+
+    workers.setState('worker-a', 'STOPPED');
+    expect(status('worker-a')).toBeUndefined();
+    expect(status('worker-a', true)).toBe('STOPPED');
+    const stopped = workers.getById('worker-a');
+    expect(stopped.ok && stopped.value.stoppedAt).toBeGreaterThan(0);
+  });
+
+  test('a live worker that stops heartbeating is UNRESPONSIVE until it heartbeats again', () => {
+    const { workers, ageHeartbeat, status } = createRegistry();
+    workers.register({ id: 'worker-a', host: 'box', pid: 42, executors: [] });
+    workers.register({ id: 'worker-b', host: 'box', pid: 43, executors: [] });
+    workers.setState('worker-b', 'STOPPED');
+
+    ageHeartbeat('worker-a', WORKER_STALE_MS + 1);
+    ageHeartbeat('worker-b', WORKER_STALE_MS + 1);
+    expect(status('worker-a')).toBe('UNRESPONSIVE');
+    expect(status('worker-b', true)).toBe('STOPPED');
+
+    workers.heartbeat('worker-a');
+    expect(status('worker-a')).toBe('IDLE');
+  });
+
+  test('pruning forgets workers not heard from for a day', () => {
+    const { jobs, workers, ageHeartbeat, status } = createRegistry();
+    workers.register({ id: 'worker-old', host: 'box', pid: 42, executors: [] });
+    workers.register({ id: 'worker-new', host: 'box', pid: 43, executors: [] });
+    ageHeartbeat('worker-old', 25 * 60 * 60 * 1000);
+
+    expect(jobs.pruneWorkers()).toEqual({ ok: true, value: 1 });
+    expect(status('worker-old')).toBeUndefined();
+    expect(status('worker-new')).toBe('IDLE');
+  });
+});
+
+describe('Worker registration', () => {
+  let relay: TestRelay | null = null;
+  let repoPath: string | null = null;
+
+  afterEach(async () => {
+    await relay?.cleanup();
+    if (repoPath) {
+      await rm(repoPath, { recursive: true, force: true });
+    }
+    relay = null;
+    repoPath = null;
+  });
+
+  test('a worker registers on start, counts its attempts and is STOPPED after stop', async () => {
+    const repo = await createGitRepo({ 'hello.txt': 'hello\n' });
+    repoPath = repo.path;
+    const fixture = MockFixtureSchema.parse({ output: { diff: greetingDiff('hi') } });
+    relay = await createTestRelay([{ executor: new MockExecutor([fixture]), modelPatterns: ['mock-*'] }]);
+
+    const submitted = await relay.jobs.submit(localJobSpec(repo, 'registered'));
+    if (!submitted.ok) throw new Error(submitted.error);
+    expect(await runUntilSettled(relay, [submitted.value.jobId])).toEqual(['SUCCEEDED']);
+
+    const listed = relay.jobs.listWorkers(true);
+    expect(listed.ok && listed.value.items).toEqual([
+      expect.objectContaining({
+        id: expect.stringMatching(/^worker-/),
+        pid: process.pid,
+        executors: ['mock'],
+        state: 'STOPPED',
+        status: 'STOPPED',
+        attemptsStarted: 1,
+        attemptsSucceeded: 1,
+        attemptsFailed: 0,
+      }),
+    ]);
+  });
+});